@@ -115,6 +115,7 @@ function RootLayoutNav() {
       <Stack.Screen name="index" options={{ headerShown: false }} />
       <Stack.Screen name="chat/[conversationId]" options={{ headerShown: false }} />
       <Stack.Screen name="memory/[sessionId]" options={{ headerShown: false }} />
+      <Stack.Screen name="metrics/[sessionId]" options={{ headerShown: false }} />
       <Stack.Screen name="consent" options={{ headerShown: false }} />
     </Stack>
   );
@@ -17,14 +17,15 @@ import {
   ScrollView,
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import { ArrowLeft, Send, Copy, RotateCcw, Mic, Paperclip, Sparkles, Zap, BookOpen, BarChart3, Wifi, WifiOff, Activity, User, RefreshCw, Brain } from 'lucide-react-native';
+import { ArrowLeft, Send, Copy, Check, Clock, AlertCircle, RotateCcw, Mic, Paperclip, Sparkles, Zap, BookOpen, BarChart3, Wifi, WifiOff, Activity, User, RefreshCw, Brain, Square } from 'lucide-react-native';
 import { useChat, Message } from '@/lib/chat-context';
 import { useLimnus } from '@/lib/limnus-provider';
+import { ReflectionInsightCard } from '@/components/ReflectionInsightCard';
+import { DirectiveReviewCard } from '@/components/DirectiveReviewCard';
 import Colors, { quickPrompts } from '@/constants/colors';
 import * as Haptics from 'expo-haptics';
 import * as Clipboard from 'expo-clipboard';
 import { LinearGradient } from 'expo-linear-gradient';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const { width } = Dimensions.get('window');
 
@@ -93,91 +94,6 @@ const usePerformanceMonitor = () => {
   return metrics;
 };
 
-// Connection status hook
-const useConnectionStatus = () => {
-  const [isConnected, setIsConnected] = useState(true);
-  
-  useEffect(() => {
-    if (Platform.OS === 'web') {
-      // For web, use navigator.onLine
-      const handleOnline = () => setIsConnected(true);
-      const handleOffline = () => setIsConnected(false);
-      
-      window.addEventListener('online', handleOnline);
-      window.addEventListener('offline', handleOffline);
-      
-      // Set initial state
-      setIsConnected(navigator.onLine);
-      
-      return () => {
-        window.removeEventListener('online', handleOnline);
-        window.removeEventListener('offline', handleOffline);
-      };
-    } else {
-      // For React Native, use NetInfo
-      import('@react-native-community/netinfo').then((NetInfo) => {
-        const unsubscribe = NetInfo.default.addEventListener(state => {
-          setIsConnected(state.isConnected ?? false);
-        });
-        
-        return unsubscribe;
-      }).catch(() => {
-        // Fallback if NetInfo is not available
-        console.log('NetInfo not available, assuming connected');
-        setIsConnected(true);
-      });
-    }
-  }, []);
-  
-  return isConnected;
-};
-
-// Analyze message content for consciousness metrics
-const analyzeMessageForConsciousness = (message: string) => {
-  const lowerMessage = message.toLowerCase();
-  const words = lowerMessage.split(/\s+/);
-  const wordCount = words.length;
-  
-  // Base metrics influenced by message characteristics
-  const metrics: any = {};
-  
-  // Awareness - based on self-referential language and metacognition
-  const awarenessWords = ['i think', 'i feel', 'i realize', 'i understand', 'i notice', 'i see', 'i believe'];
-  const awarenessScore = awarenessWords.filter(phrase => lowerMessage.includes(phrase)).length;
-  if (awarenessScore > 0) metrics.awareness = Math.min(0.1 + (awarenessScore * 0.05), 0.2);
-  
-  // Attention - based on focus and specificity
-  const questionWords = ['what', 'how', 'why', 'when', 'where', 'which'];
-  const questionScore = questionWords.filter(word => words.includes(word)).length;
-  if (questionScore > 0) metrics.attention = Math.min(0.05 + (questionScore * 0.03), 0.15);
-  
-  // Creativity - based on imaginative and creative language
-  const creativeWords = ['imagine', 'create', 'invent', 'design', 'dream', 'vision', 'idea', 'innovative'];
-  const creativityScore = creativeWords.filter(word => words.includes(word)).length;
-  if (creativityScore > 0) metrics.creativity = Math.min(0.05 + (creativityScore * 0.04), 0.2);
-  
-  // Emotional resonance - based on emotional language
-  const emotionalWords = ['love', 'joy', 'happy', 'sad', 'angry', 'excited', 'peaceful', 'grateful', 'hope'];
-  const emotionalScore = emotionalWords.filter(word => words.includes(word)).length;
-  if (emotionalScore > 0) metrics.emotional_resonance = Math.min(0.05 + (emotionalScore * 0.03), 0.15);
-  
-  // Wonder - based on curiosity and exploration
-  const wonderWords = ['wonder', 'curious', 'amazing', 'fascinating', 'mysterious', 'explore', 'discover'];
-  const wonderScore = wonderWords.filter(word => words.includes(word)).length;
-  if (wonderScore > 0) metrics.wonder = Math.min(0.05 + (wonderScore * 0.04), 0.2);
-  
-  // Clarity - inversely related to message complexity and length
-  const clarityScore = Math.max(0, 1 - (wordCount / 100)); // Shorter messages tend to be clearer
-  if (clarityScore > 0.5) metrics.clarity = Math.min(clarityScore * 0.1, 0.1);
-  
-  // Connection - based on relational language
-  const connectionWords = ['we', 'us', 'together', 'share', 'connect', 'relationship', 'community'];
-  const connectionScore = connectionWords.filter(word => words.includes(word)).length;
-  if (connectionScore > 0) metrics.connection = Math.min(0.05 + (connectionScore * 0.03), 0.15);
-  
-  return metrics;
-};
-
 // Cross-platform swipe gesture hook
 const useSwipeGesture = (onSwipeLeft?: () => void, onSwipeRight?: () => void) => {
   const [touchStart, setTouchStart] = useState<number | null>(null);
@@ -259,24 +175,31 @@ export default function ChatScreen() {
     selectConversation,
     streamingMessage,
     isStreaming,
+    cancelStreaming,
     limnusSession,
-    hasConsented
+    hasConsented,
+    reflectionNotice,
+    dismissReflectionNotice,
+    outbox,
+    isConnected,
+    retryMessage,
+    discardMessage
   } = useChat();
   
   const limnusContext = useLimnus();
   const { session: limnusSessionDirect } = limnusContext || { session: null };
   
   const [inputText, setInputText] = useState('');
-  const [offlineQueue, setOfflineQueue] = useState<Message[]>([]);
   const [showPerformanceMetrics, setShowPerformanceMetrics] = useState(__DEV__);
   const flatListRef = useRef<FlatList>(null);
   const inputRef = useRef<TextInput>(null);
   
 
   
-  // Performance and connection monitoring
+  // Performance monitoring; connectivity comes from the chat provider
   const metrics = usePerformanceMonitor();
-  const isConnected = useConnectionStatus();
+  // Sends waiting in the outbox, across all conversations
+  const queuedCount = outbox.filter(entry => entry.status === 'pending').length;
 
   useEffect(() => {
     if (conversationId && conversationId !== 'new' && conversationId !== currentConversationId) {
@@ -293,34 +216,6 @@ export default function ChatScreen() {
     }
   }, [messages, streamingMessage]);
 
-  // Offline message storage (simplified)
-  const saveOfflineMessage = useCallback(async (message: Message) => {
-    try {
-      const stored = await AsyncStorage.getItem('offlineMessages');
-      const offlineMessages = stored ? JSON.parse(stored) : [];
-      offlineMessages.push(message);
-      await AsyncStorage.setItem('offlineMessages', JSON.stringify(offlineMessages));
-      setOfflineQueue(offlineMessages);
-    } catch (error) {
-      console.error('Failed to save offline message:', error);
-    }
-  }, []);
-  
-  // Load offline messages on mount
-  useEffect(() => {
-    const loadOfflineMessages = async () => {
-      try {
-        const stored = await AsyncStorage.getItem('offlineMessages');
-        if (stored) {
-          setOfflineQueue(JSON.parse(stored));
-        }
-      } catch (error) {
-        console.error('Failed to load offline messages:', error);
-      }
-    };
-    loadOfflineMessages();
-  }, []);
-
   const handleSend = useCallback(async () => {
     if (!inputText.trim() || isSending) return;
     
@@ -330,39 +225,20 @@ export default function ChatScreen() {
     }
     
     const messageToSend = inputText.trim();
-    const messageStartTime = Date.now();
     setInputText('');
     
-    const userMessage: Message = {
-      role: 'user',
-      content: messageToSend,
-      timestamp: messageStartTime,
-    };
-    
     try {
-      if (!isConnected) {
-        // Save message for later when offline
-        await saveOfflineMessage(userMessage);
-        Alert.alert('Offline', 'You are currently offline. Please check your connection and try again.');
-        return;
-      }
+      // sendMessage records the message's consciousness metrics; offline or
+      // after a transient error the message stays queued and is replayed
+      const status = await sendMessage(messageToSend);
       
-      // Update consciousness metrics if Limnus is active
-      if (limnusContext?.session && limnusContext?.updateMetrics) {
-        const messageMetrics = analyzeMessageForConsciousness(messageToSend);
-        await limnusContext.updateMetrics(messageMetrics, {
-          action: 'message_sent',
-          duration: Date.now() - messageStartTime,
-          userInput: messageToSend
-        });
+      // Error haptic feedback; the bubble shows the failure
+      if (status === 'failed' && Platform.OS !== 'web') {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
-      
-      await sendMessage(messageToSend);
     } catch (error) {
       console.error('Failed to send message:', error);
       
-      // Don't save to offline queue on error to avoid confusion
-      
       Alert.alert('Error', 'Failed to send message. Please check your connection and try again.');
       
       // Error haptic feedback
@@ -370,7 +246,18 @@ export default function ChatScreen() {
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
     }
-  }, [inputText, isSending, isConnected, saveOfflineMessage, sendMessage, limnusContext]);
+  }, [inputText, isSending, sendMessage]);
+
+  const handleFailedMessagePress = useCallback((message: Message) => {
+    if (!message.idempotencyKey) return;
+    const key = message.idempotencyKey;
+    const entry = outbox.find(queued => queued.idempotencyKey === key);
+    Alert.alert('Message not sent', entry?.lastError || 'This message could not be delivered.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardMessage(key) },
+      { text: 'Retry', onPress: () => retryMessage(key) },
+    ]);
+  }, [outbox, retryMessage, discardMessage]);
   
   // Web keyboard shortcuts
   useEffect(() => {
@@ -483,12 +370,17 @@ export default function ChatScreen() {
               {item.content}
             </Text>
           </View>
-          <Text style={[
-            styles.messageTime,
-            isUser ? styles.userMessageTime : styles.assistantMessageTime
-          ]}>
-            {formatTime(item.timestamp)}
-          </Text>
+          <View style={styles.messageFooter}>
+            <Text style={[
+              styles.messageTime,
+              isUser ? styles.userMessageTime : styles.assistantMessageTime
+            ]}>
+              {formatTime(item.timestamp)}
+            </Text>
+            {isUser && item.status && (
+              <DeliveryStatusLabel message={item} />
+            )}
+          </View>
         </View>
         
         {!isUser && (
@@ -503,6 +395,29 @@ export default function ChatScreen() {
     );
   });
   
+  const DeliveryStatusLabel = ({ message }: { message: Message }) => {
+    if (message.status === 'failed') {
+      return (
+        <TouchableOpacity style={styles.deliveryStatus} onPress={() => handleFailedMessagePress(message)}>
+          <AlertCircle size={12} color="#FCA5A5" />
+          <Text style={[styles.deliveryStatusText, styles.deliveryStatusFailed]}>Not sent · tap to retry</Text>
+        </TouchableOpacity>
+      );
+    }
+    return (
+      <View style={styles.deliveryStatus}>
+        {message.status === 'pending' ? (
+          <Clock size={12} color="rgba(255, 255, 255, 0.7)" />
+        ) : (
+          <Check size={12} color="rgba(255, 255, 255, 0.7)" />
+        )}
+        <Text style={styles.deliveryStatusText}>
+          {message.status === 'pending' ? (isConnected ? 'Sending…' : 'Waiting for connection') : 'Sent'}
+        </Text>
+      </View>
+    );
+  };
+
   const renderMessage = ({ item, index }: { item: Message; index: number }) => (
     <MessageBubble item={item} index={index} />
   );
@@ -772,10 +687,10 @@ export default function ChatScreen() {
         <PerformanceMetrics />
         
         {/* Offline Queue Indicator */}
-        {offlineQueue.length > 0 && (
+        {queuedCount > 0 && (
           <View style={styles.offlineQueueIndicator}>
             <Text style={styles.offlineQueueText}>
-              {offlineQueue.length} message{offlineQueue.length > 1 ? 's' : ''} queued for sending
+              {queuedCount} message{queuedCount > 1 ? 's' : ''} queued for sending
             </Text>
           </View>
         )}
@@ -825,7 +740,7 @@ export default function ChatScreen() {
                 ref={flatListRef}
                 data={messages}
                 renderItem={renderMessage}
-                keyExtractor={(item, index) => `${item.timestamp}-${index}`}
+                keyExtractor={(item, index) => item.idempotencyKey ? `${item.idempotencyKey}-${item.role}` : `${item.timestamp}-${index}`}
                 style={styles.messagesList}
                 contentContainerStyle={[
                   styles.messagesContent,
@@ -865,6 +780,16 @@ export default function ChatScreen() {
           )}
         </View>
 
+          {/* Latest scheduled reflection */}
+          {reflectionNotice && (
+            <ReflectionInsightCard notice={reflectionNotice} onDismiss={dismissReflectionNotice} />
+          )}
+
+          {/* Directives waiting to be activated */}
+          {limnusSessionDirect && hasConsented && (
+            <DirectiveReviewCard sessionId={limnusSessionDirect.id} refreshKey={reflectionNotice?.timestamp} />
+          )}
+
           {/* Input */}
           <View style={[
             styles.inputContainer,
@@ -899,7 +824,19 @@ export default function ChatScreen() {
                 returnKeyType={Platform.OS === 'ios' ? 'default' : 'send'}
               />
               
-              {inputText.trim() ? (
+              {isStreaming ? (
+                <TouchableOpacity
+                  style={[
+                    styles.sendButton,
+                    styles.stopButton,
+                    isDesktop && styles.sendButtonDesktop
+                  ]}
+                  onPress={cancelStreaming}
+                  accessibilityLabel="Stop generating"
+                >
+                  <Square size={14} color="white" fill="white" />
+                </TouchableOpacity>
+              ) : inputText.trim() ? (
                 <TouchableOpacity
                   style={[
                     styles.sendButton,
@@ -1020,11 +957,29 @@ const styles = StyleSheet.create({
   assistantMessageText: {
     color: '#ffffff',
   },
-  messageTime: {
-    fontSize: 12,
+  messageFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     marginTop: 8,
     marginLeft: 36,
   },
+  messageTime: {
+    fontSize: 12,
+  },
+  deliveryStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 12,
+  },
+  deliveryStatusText: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  deliveryStatusFailed: {
+    color: '#FCA5A5',
+  },
   userMessageTime: {
     color: 'rgba(255, 255, 255, 0.7)',
   },
@@ -1212,6 +1167,10 @@ const styles = StyleSheet.create({
     backgroundColor: '#666',
     shadowOpacity: 0,
   },
+  stopButton: {
+    backgroundColor: '#EC4899',
+    shadowColor: '#EC4899',
+  },
   connectionStatus: {
     position: 'absolute' as const,
     top: 4,
@@ -15,9 +15,10 @@ import {
   ScrollView,
 } from 'react-native';
 import { router } from 'expo-router';
-import { MessageCircle, Search, Sparkles, Clock, Zap, Wifi, WifiOff, Activity, MemoryStick, BookOpen, BarChart3, Brain, Eye } from 'lucide-react-native';
+import { MessageCircle, Search, Sparkles, Clock, Zap, Wifi, WifiOff, Activity, MemoryStick, BookOpen, BarChart3, Brain, Eye, TrendingUp } from 'lucide-react-native';
 import { useChat } from '@/lib/chat-context';
 import { useLimnus } from '@/lib/limnus-provider';
+import { useConnectionStatus } from '@/lib/connection-status';
 import Colors, { quickPrompts } from '@/constants/colors';
 import * as Haptics from 'expo-haptics';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -77,45 +78,11 @@ const usePerformanceMonitor = () => {
   return metrics;
 };
 
-// Connection status hook
-const useConnectionStatus = () => {
-  const [isConnected, setIsConnected] = useState(true);
-  
-  useEffect(() => {
-    if (Platform.OS === 'web') {
-      const handleOnline = () => setIsConnected(true);
-      const handleOffline = () => setIsConnected(false);
-      
-      window.addEventListener('online', handleOnline);
-      window.addEventListener('offline', handleOffline);
-      
-      setIsConnected(navigator.onLine);
-      
-      return () => {
-        window.removeEventListener('online', handleOnline);
-        window.removeEventListener('offline', handleOffline);
-      };
-    } else {
-      import('@react-native-community/netinfo').then((NetInfo) => {
-        const unsubscribe = NetInfo.default.addEventListener(state => {
-          setIsConnected(state.isConnected ?? false);
-        });
-        
-        return unsubscribe;
-      }).catch(() => {
-        console.log('NetInfo not available, assuming connected');
-        setIsConnected(true);
-      });
-    }
-  }, []);
-  
-  return isConnected;
-};
-
 export default function ChatHomeScreen() {
-  const { conversations, startNewConversation, selectConversation, isLoading } = useChat();
+  const { conversations, startNewConversation, selectConversation, isLoading, personas } = useChat();
   const { session, hasConsented } = useLimnus();
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string | undefined>(undefined);
   const [showPerformanceMetrics, setShowPerformanceMetrics] = useState(__DEV__);
   
   // Performance and connection monitoring
@@ -142,7 +109,7 @@ export default function ChatHomeScreen() {
     if (Platform.OS !== 'web') {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
-    startNewConversation();
+    startNewConversation(selectedPersonaId);
     router.push('/chat/new' as any);
   };
 
@@ -221,7 +188,7 @@ export default function ChatHomeScreen() {
                 isDesktop && styles.quickActionItemDesktop
               ]}
               onPress={() => {
-                startNewConversation();
+                startNewConversation(selectedPersonaId);
                 router.push('/chat/new' as any);
               }}
             >
@@ -334,6 +301,25 @@ export default function ChatHomeScreen() {
           {!hasConsented && " Activate consciousness tracking to unlock deeper insights."}
         </Text>
         <QuickActions />
+        {personas.length > 1 && (
+          <View style={styles.personaPicker}>
+            {personas.map(persona => {
+              const isSelected = (selectedPersonaId ?? personas[0].id) === persona.id;
+              return (
+                <TouchableOpacity
+                  key={persona.id}
+                  style={[styles.personaChip, isSelected && styles.personaChipSelected]}
+                  onPress={() => setSelectedPersonaId(persona.id)}
+                  accessibilityLabel={`Use ${persona.name} persona`}
+                >
+                  <Text style={[styles.personaChipText, isSelected && styles.personaChipTextSelected]}>
+                    {persona.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
         <TouchableOpacity style={[
           styles.startButton,
           isDesktop && styles.startButtonDesktop
@@ -410,6 +396,17 @@ export default function ChatHomeScreen() {
               >
                 <Eye size={20} color={hasConsented ? "#00ff88" : "white"} />
               </TouchableOpacity>
+              {hasConsented && session && (
+                <TouchableOpacity 
+                  style={[
+                    styles.memoryButton,
+                    isDesktop && styles.memoryButtonDesktop
+                  ]} 
+                  onPress={() => router.push(`/metrics/${session.id}` as any)}
+                >
+                  <TrendingUp size={20} color="white" />
+                </TouchableOpacity>
+              )}
               <TouchableOpacity 
                 style={[
                   styles.memoryButton,
@@ -772,6 +769,33 @@ const styles = StyleSheet.create({
     marginTop: 8,
     textAlign: 'center',
   },
+  personaPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  personaChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a3e',
+    backgroundColor: '#1a1a2e',
+    margin: 4,
+  },
+  personaChipSelected: {
+    borderColor: '#8B5CF6',
+    backgroundColor: '#8B5CF620',
+  },
+  personaChipText: {
+    color: '#a0a0a0',
+    fontSize: 14,
+    fontWeight: '500' as const,
+  },
+  personaChipTextSelected: {
+    color: '#ffffff',
+  },
   startButton: {
     shadowColor: '#8B5CF6',
     shadowOffset: { width: 0, height: 8 },
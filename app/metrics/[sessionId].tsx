@@ -0,0 +1,513 @@
+import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Dimensions,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+import { ArrowLeft, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { useQuery } from '@tanstack/react-query';
+import { trpcClient } from '@/lib/trpc';
+import { limnusStorage } from '@/lib/limnus-client-storage';
+import { extractTimelineMarkers, queryMetricsHistory } from '@/lib/metrics-history';
+import {
+  METRIC_GROUP_COLORS,
+  METRIC_GROUP_ORDER,
+  METRIC_GROUPS,
+  METRIC_REGISTRY,
+  type MetricGroup,
+} from '@/lib/metric-registry';
+import { MetricTrendChart, type TrendPoint } from '@/components/MetricTrendChart';
+import { ConsciousnessRadar } from '@/components/ConsciousnessRadar';
+import { CoherenceBreakdownCard } from '@/components/CoherenceBreakdownCard';
+import { computeSessionCoherence } from '@/lib/coherence-engine';
+import type { ConsciousnessMetrics, LimnusSession, MetricKey, MetricsHistoryResponse } from '@/types/limnus';
+
+const { width: screenWidth } = Dimensions.get('window');
+const CHART_INSET = 20;
+const CHART_WIDTH = Math.min(screenWidth - CHART_INSET * 2, 860);
+// Roughly one point per 4px keeps lines smooth without overdrawing
+const MAX_POINTS = Math.round(CHART_WIDTH / 4);
+const MIN_SPAN_MS = 60 * 1000;
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+const formatGroupLabel = (group: string) => group.charAt(0).toUpperCase() + group.slice(1);
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Sessions that never reached the server (or this user's token) are served
+// from the device's own snapshots with the same downsampling. The offline
+// client answers with undefined rather than throwing, so the answer is
+// checked as well.
+async function loadHistory(sessionId: string, window: TimeWindow | null): Promise<MetricsHistoryResponse> {
+  const query = {
+    sessionId,
+    from: window ? new Date(window.start).toISOString() : undefined,
+    to: window ? new Date(window.end).toISOString() : undefined,
+    maxPoints: MAX_POINTS,
+  };
+  try {
+    const remote = await trpcClient.limnus.metrics.history.query(query);
+    if (Array.isArray(remote?.points)) return remote;
+    console.log('Metrics history response was empty, using local snapshots');
+  } catch (error) {
+    console.log('Metrics history unavailable from server, using local snapshots:', (error as Error)?.message);
+  }
+  return queryMetricsHistory(await limnusStorage.getMetricsHistory(sessionId), query);
+}
+
+async function loadSession(sessionId: string): Promise<LimnusSession | null> {
+  try {
+    const remote = await trpcClient.limnus.session.get.query({ sessionId });
+    if (remote?.id) return remote;
+  } catch {
+    // Fall through to the device's copy
+  }
+  return await limnusStorage.getSession(sessionId);
+}
+
+function clampWindow(window: TimeWindow, extent: TimeWindow): TimeWindow {
+  const extentSpan = extent.end - extent.start;
+  const span = Math.min(extentSpan, Math.max(MIN_SPAN_MS, window.end - window.start));
+  const start = Math.min(Math.max(window.start, extent.start), extent.end - span);
+  return { start, end: start + span };
+}
+
+export default function MetricsTrends() {
+  const { sessionId } = useLocalSearchParams<{ sessionId: string }>();
+  const [enabledGroups, setEnabledGroups] = useState<MetricGroup[]>(METRIC_GROUP_ORDER);
+  // committedWindow drives queries; liveWindow follows the fingers mid-gesture
+  const [committedWindow, setCommittedWindow] = useState<TimeWindow | null>(null);
+  const [liveWindow, setLiveWindow] = useState<TimeWindow | null>(null);
+  const [extent, setExtent] = useState<TimeWindow | null>(null);
+  const gestureBase = useRef<TimeWindow | null>(null);
+  const gestureWindow = useRef<TimeWindow | null>(null);
+
+  const historyQuery = useQuery({
+    queryKey: ['limnus', 'metricsHistory', sessionId, committedWindow],
+    queryFn: () => loadHistory(sessionId!, committedWindow),
+    enabled: !!sessionId,
+    placeholderData: previous => previous,
+  });
+
+  const sessionQuery = useQuery({
+    queryKey: ['limnus', 'session', sessionId],
+    queryFn: () => loadSession(sessionId!),
+    enabled: !!sessionId,
+  });
+
+  // The unzoomed query defines how far the user can zoom back out
+  useEffect(() => {
+    const range = historyQuery.data?.range;
+    if (!committedWindow && range) {
+      setExtent({ start: Date.parse(range.from), end: Math.max(Date.parse(range.to), Date.parse(range.from) + MIN_SPAN_MS) });
+    }
+  }, [historyQuery.data, committedWindow]);
+
+  const visibleWindow = liveWindow ?? committedWindow ?? extent;
+
+  const series = useMemo(() => {
+    const points = historyQuery.data?.points ?? [];
+    const bySeries: Partial<Record<MetricKey, TrendPoint[]>> = {};
+    for (const point of points) {
+      const time = Date.parse(point.timestamp);
+      for (const [metric, value] of Object.entries(point.metrics)) {
+        if (value === undefined) continue;
+        (bySeries[metric as MetricKey] ??= []).push({ time, value });
+      }
+    }
+    return bySeries;
+  }, [historyQuery.data]);
+
+  const commitWindow = useCallback((window: TimeWindow | null) => {
+    setLiveWindow(null);
+    setCommittedWindow(window);
+  }, []);
+
+  const zoomBy = useCallback((factor: number) => {
+    if (!extent) return;
+    const current = committedWindow ?? extent;
+    const center = (current.start + current.end) / 2;
+    const span = (current.end - current.start) / factor;
+    const next = clampWindow({ start: center - span / 2, end: center + span / 2 }, extent);
+    commitWindow(next.end - next.start >= extent.end - extent.start ? null : next);
+  }, [extent, committedWindow, commitWindow]);
+
+  const toggleGroup = (group: MetricGroup) => {
+    setEnabledGroups(current =>
+      current.includes(group) ? current.filter(g => g !== group) : [...current, group]
+    );
+  };
+
+  // Pinch zooms around the focal point, a horizontal drag pans; both only
+  // refetch once the gesture ends
+  const gesture = useMemo(() => {
+    const begin = () => {
+      gestureBase.current = committedWindow ?? extent;
+      gestureWindow.current = null;
+    };
+    const follow = (window: TimeWindow) => {
+      gestureWindow.current = window;
+      setLiveWindow(window);
+    };
+    const finish = () => {
+      const window = gestureWindow.current;
+      if (!window || !extent) return;
+      commitWindow(window.end - window.start >= extent.end - extent.start ? null : window);
+    };
+
+    const pinch = Gesture.Pinch()
+      .runOnJS(true)
+      .onStart(begin)
+      .onUpdate(event => {
+        const base = gestureBase.current;
+        if (!base || !extent) return;
+        const focal = base.start + ((event.focalX - CHART_INSET) / CHART_WIDTH) * (base.end - base.start);
+        follow(clampWindow({
+          start: focal - (focal - base.start) / event.scale,
+          end: focal + (base.end - focal) / event.scale,
+        }, extent));
+      })
+      .onEnd(finish);
+
+    const pan = Gesture.Pan()
+      .runOnJS(true)
+      .activeOffsetX([-15, 15])
+      .failOffsetY([-10, 10])
+      .onStart(begin)
+      .onUpdate(event => {
+        const base = gestureBase.current;
+        if (!base || !extent) return;
+        const shift = -(event.translationX / CHART_WIDTH) * (base.end - base.start);
+        follow(clampWindow({ start: base.start + shift, end: base.end + shift }, extent));
+      })
+      .onEnd(finish);
+
+    return Gesture.Simultaneous(pinch, pan);
+  }, [committedWindow, extent, commitWindow]);
+
+  // Radar compares the last point in view against the first
+  const radarComparison = useMemo(() => {
+    if (!visibleWindow) return null;
+    const inView = (historyQuery.data?.points ?? []).filter(point => {
+      const time = Date.parse(point.timestamp);
+      return time >= visibleWindow.start && time <= visibleWindow.end;
+    });
+    if (inView.length < 2) return null;
+    const first = inView[0];
+    const last = inView[inView.length - 1];
+    // Unfiltered history points carry every metric
+    return {
+      current: { metrics: last.metrics as ConsciousnessMetrics, label: formatTime(Date.parse(last.timestamp)) },
+      previous: { metrics: first.metrics as ConsciousnessMetrics, label: formatTime(Date.parse(first.timestamp)) },
+    };
+  }, [historyQuery.data, visibleWindow]);
+
+  const markers = useMemo(
+    () => extractTimelineMarkers(sessionQuery.data?.memoryChain ?? []),
+    [sessionQuery.data]
+  );
+  const coherence = useMemo(
+    () => sessionQuery.data ? computeSessionCoherence(sessionQuery.data) : null,
+    [sessionQuery.data]
+  );
+  const hasData = !!extent && (historyQuery.data?.points.length ?? 0) > 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="white" />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Metric Trends</Text>
+          <Text style={styles.headerSubtitle}>
+            {historyQuery.data ? `${historyQuery.data.totalSnapshots} snapshots` : `Session: ${sessionId}`}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.controlButton} onPress={() => commitWindow(null)}>
+          <RotateCcw size={20} color="white" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Group toggles */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.groupBar}
+        contentContainerStyle={styles.groupBarContent}
+      >
+        {METRIC_GROUP_ORDER.map(group => {
+          const enabled = enabledGroups.includes(group);
+          return (
+            <TouchableOpacity
+              key={group}
+              style={[
+                styles.groupChip,
+                enabled && { borderColor: METRIC_GROUP_COLORS[group], backgroundColor: `${METRIC_GROUP_COLORS[group]}26` },
+              ]}
+              onPress={() => toggleGroup(group)}
+            >
+              <View style={[styles.groupDot, { backgroundColor: enabled ? METRIC_GROUP_COLORS[group] : 'rgba(255, 255, 255, 0.3)' }]} />
+              <Text style={[styles.groupChipText, enabled && styles.groupChipTextActive]}>
+                {formatGroupLabel(group)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {/* Time window and zoom controls */}
+      <View style={styles.windowBar}>
+        <Text style={styles.windowText}>
+          {visibleWindow ? `${formatTime(visibleWindow.start)} – ${formatTime(visibleWindow.end)}` : '—'}
+        </Text>
+        <View style={styles.zoomButtons}>
+          <TouchableOpacity style={styles.zoomButton} onPress={() => zoomBy(0.5)} disabled={!committedWindow}>
+            <ZoomOut size={16} color={committedWindow ? 'white' : 'rgba(255, 255, 255, 0.3)'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.zoomButton} onPress={() => zoomBy(2)} disabled={!extent}>
+            <ZoomIn size={16} color={extent ? 'white' : 'rgba(255, 255, 255, 0.3)'} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.legend}>
+        <View style={[styles.legendMarker, { borderColor: '#F7DC6F', borderStyle: 'dashed' }]} />
+        <Text style={styles.legendText}>Phase transition</Text>
+        <View style={[styles.legendMarker, { borderColor: '#EC4899', borderStyle: 'dotted' }]} />
+        <Text style={styles.legendText}>Reflection</Text>
+      </View>
+
+      {historyQuery.isLoading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator color="#8B5CF6" />
+        </View>
+      ) : !hasData || !visibleWindow ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>No metrics recorded yet</Text>
+          <Text style={styles.emptyText}>Trends appear after the session has a few metric updates.</Text>
+        </View>
+      ) : (
+        <GestureDetector gesture={gesture}>
+          <ScrollView style={styles.charts} contentContainerStyle={styles.chartsContent}>
+            {coherence && (
+              <View style={styles.coherenceSection}>
+                <CoherenceBreakdownCard coherence={coherence} />
+              </View>
+            )}
+            {radarComparison && (
+              <View style={styles.radarSection}>
+                <ConsciousnessRadar
+                  metrics={radarComparison.current.metrics}
+                  label={radarComparison.current.label}
+                  comparison={radarComparison.previous}
+                  size={Math.min(CHART_WIDTH, 320)}
+                  animateChanges={false}
+                />
+              </View>
+            )}
+            {enabledGroups.length === 0 && (
+              <Text style={styles.emptyText}>Select a metric group to show its trends.</Text>
+            )}
+            {METRIC_GROUP_ORDER.filter(group => enabledGroups.includes(group)).map(group => (
+              <View key={group} style={styles.groupSection}>
+                <Text style={[styles.groupTitle, { color: METRIC_GROUP_COLORS[group] }]}>{formatGroupLabel(group)}</Text>
+                {METRIC_GROUPS[group].map(metric => (
+                  <MetricTrendChart
+                    key={metric}
+                    metric={metric}
+                    label={METRIC_REGISTRY[metric].label}
+                    color={METRIC_GROUP_COLORS[group]}
+                    points={series[metric] ?? []}
+                    start={visibleWindow.start}
+                    end={visibleWindow.end}
+                    markers={markers}
+                    width={CHART_WIDTH}
+                    unit={METRIC_REGISTRY[metric].unit}
+                  />
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+        </GestureDetector>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f23',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#1a1a2e',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold' as const,
+    color: 'white',
+    letterSpacing: 1,
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  controlButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  groupBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  groupBarContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  groupChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    gap: 6,
+  },
+  groupDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  groupChipText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontWeight: '500' as const,
+  },
+  groupChipTextActive: {
+    color: 'white',
+  },
+  windowBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  windowText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontWeight: '500' as const,
+  },
+  zoomButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  zoomButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  legendMarker: {
+    width: 14,
+    height: 0,
+    borderTopWidth: 2,
+    marginLeft: 6,
+  },
+  legendText: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  charts: {
+    flex: 1,
+  },
+  chartsContent: {
+    paddingHorizontal: CHART_INSET,
+    paddingBottom: 40,
+  },
+  coherenceSection: {
+    marginTop: 16,
+  },
+  radarSection: {
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  groupSection: {
+    marginTop: 16,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '700' as const,
+    letterSpacing: 1,
+    textTransform: 'uppercase' as const,
+    marginBottom: 12,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: 'white',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.6)',
+    textAlign: 'center' as const,
+  },
+});
@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { issueToken, readBearerToken, TOKEN_TTL_MS, verifyToken } from './tokens';
+
+describe('bearer tokens', () => {
+  it('verifies a token it issued', async () => {
+    const { token, userId, expiresAt } = await issueToken('user-a', 1000);
+    assert.equal(userId, 'user-a');
+    assert.equal(expiresAt, 1000 + TOKEN_TTL_MS);
+    assert.deepEqual(await verifyToken(token, 2000), { id: 'user-a' });
+  });
+
+  it('rejects expired, tampered and malformed tokens', async () => {
+    const { token } = await issueToken('user-a', 1000);
+    assert.equal(await verifyToken(token, 1000 + TOKEN_TTL_MS), null);
+
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'user-b', iat: 1000, exp: Number.MAX_SAFE_INTEGER })).toString('base64url');
+    assert.equal(await verifyToken(`${forged}.${signature}`, 2000), null);
+    assert.equal(await verifyToken('not-a-token', 2000), null);
+    assert.equal(await verifyToken(`${token}.extra`, 2000), null);
+  });
+
+  it('reads the token from a bearer header only', () => {
+    const request = (authorization?: string) =>
+      new Request('http://localhost/api/trpc', { headers: authorization ? { authorization } : {} });
+    assert.equal(readBearerToken(request('Bearer abc.def')), 'abc.def');
+    assert.equal(readBearerToken(request('bearer  abc.def ')), 'abc.def');
+    assert.equal(readBearerToken(request('Basic abc')), null);
+    assert.equal(readBearerToken(request()), null);
+  });
+});
@@ -0,0 +1,95 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '@/backend/storage/json-file';
+
+// Stateless bearer tokens: base64url(payload).base64url(HMAC-SHA256).
+// The secret comes from AUTH_TOKEN_SECRET, or is generated once and kept
+// in the data directory so tokens survive restarts.
+
+export const TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface AuthUser {
+  id: string;
+}
+
+export interface IssuedToken {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
+interface TokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+let secretPromise: Promise<Buffer> | null = null;
+
+function getSecret(): Promise<Buffer> {
+  if (!secretPromise) {
+    secretPromise = loadSecret().catch(error => {
+      secretPromise = null;
+      throw error;
+    });
+  }
+  return secretPromise;
+}
+
+async function loadSecret(): Promise<Buffer> {
+  if (process.env.AUTH_TOKEN_SECRET) {
+    return Buffer.from(process.env.AUTH_TOKEN_SECRET, 'utf8');
+  }
+  const filePath = resolveDataPath('auth.json');
+  const stored = await readJsonFile<{ secret?: string }>(filePath, {});
+  if (stored.secret) {
+    return Buffer.from(stored.secret, 'hex');
+  }
+  const secret = randomBytes(32);
+  await writeJsonFile(filePath, { secret: secret.toString('hex') });
+  console.warn('AUTH_TOKEN_SECRET not set, generated a local token secret');
+  return secret;
+}
+
+function sign(data: string, secret: Buffer): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+export function generateUserId(): string {
+  return randomUUID();
+}
+
+export async function issueToken(userId: string, now: number = Date.now()): Promise<IssuedToken> {
+  const payload: TokenPayload = { sub: userId, iat: now, exp: now + TOKEN_TTL_MS };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  const token = `${encoded}.${sign(encoded, await getSecret())}`;
+  return { token, userId, expiresAt: payload.exp };
+}
+
+// Null for malformed, forged or expired tokens
+export async function verifyToken(token: string, now: number = Date.now()): Promise<AuthUser | null> {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded, await getSecret()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number' || payload.exp <= now) {
+      return null;
+    }
+    return { id: payload.sub };
+  } catch {
+    return null;
+  }
+}
+
+export function readBearerToken(req: Request): string | null {
+  const header = req.headers.get('authorization');
+  if (!header) return null;
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1].trim() : null;
+}
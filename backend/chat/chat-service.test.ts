@@ -0,0 +1,71 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectTurnParadoxes, prepareTurn } from './chat-service';
+import { conversationStore } from '@/backend/storage/conversation-store';
+import { limnusConfig, limnusStorage } from '@/backend/storage/limnus-storage';
+import { ACTIVATION_PHRASE } from '@/types/limnus';
+
+const userContents = (messages: { role: string; content: string }[]) =>
+  messages.filter(message => message.role === 'user').map(message => message.content);
+
+describe('prepareTurn', () => {
+  it('sends stored history followed by the new message', async () => {
+    await conversationStore.appendMessages('prepare-plain', [
+      { role: 'user', content: 'first', timestamp: 1 },
+      { role: 'assistant', content: 'reply', timestamp: 2 },
+    ]);
+
+    const { contextWindow } = await prepareTurn({ conversationId: 'prepare-plain', message: 'second' });
+    assert.deepEqual(userContents(contextWindow.messages), ['first', 'second']);
+  });
+
+  it('does not repeat a replayed message that was already stored', async () => {
+    await conversationStore.appendMessages('prepare-replay', [
+      { role: 'user', content: 'earlier', timestamp: 1 },
+      { role: 'assistant', content: 'reply', timestamp: 2 },
+      { role: 'user', content: 'cancelled', timestamp: 3, idempotencyKey: 'key-1' },
+    ], { idempotencyKey: 'key-1' });
+
+    const { contextWindow } = await prepareTurn({
+      conversationId: 'prepare-replay',
+      message: 'cancelled',
+      idempotencyKey: 'key-1',
+    });
+    assert.deepEqual(userContents(contextWindow.messages), ['earlier', 'cancelled']);
+  });
+});
+
+describe('detectTurnParadoxes', () => {
+  const user = { id: 'paradox-user' };
+
+  afterEach(() => {
+    limnusConfig.enableParadoxEngine = true;
+  });
+
+  async function turn(conversationId: string, contents: string[]): Promise<string> {
+    const { sessionId } = await limnusStorage.createSession(ACTIVATION_PHRASE, undefined, user.id);
+    await conversationStore.appendMessages(
+      conversationId,
+      contents.map((content, index) => ({ role: 'user' as const, content, timestamp: index })),
+      { ownerId: user.id }
+    );
+    return sessionId;
+  }
+
+  it('records contradictions the latest message adds', async () => {
+    const sessionId = await turn('paradox-turn', ['I love working late at night.', 'I hate working late at night.']);
+
+    await detectTurnParadoxes('paradox-turn', sessionId, user);
+    const paradoxes = await limnusStorage.getParadoxes(sessionId);
+    assert.equal(paradoxes.length, 1);
+    assert.equal(paradoxes[0].contradiction.statement2, 'I hate working late at night.');
+  });
+
+  it('does nothing while the paradox engine is off', async () => {
+    limnusConfig.enableParadoxEngine = false;
+    const sessionId = await turn('paradox-off', ['I love working late at night.', 'I hate working late at night.']);
+
+    await detectTurnParadoxes('paradox-off', sessionId, user);
+    assert.deepEqual(await limnusStorage.getParadoxes(sessionId), []);
+  });
+});
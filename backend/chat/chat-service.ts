@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import { conversationStore, findKeyedMessage, isConversationVisibleTo } from '@/backend/storage/conversation-store';
+import { personaStore } from '@/backend/storage/persona-store';
+import { llmProvider } from '@/backend/llm';
+import { limnusConfig, limnusStorage } from '@/backend/storage/limnus-storage';
+import { patchService } from '@/backend/patching/patch-service';
+import type { AuthUser } from '@/backend/auth/tokens';
+import { formatDirectivesForPrompt } from '@/lib/teaching-directives';
+import {
+  detectContradictions,
+  detectNewContradictions,
+  resolveParadox,
+  splitStatements,
+  type ContradictionCandidate,
+  type ParadoxStatement,
+  type ParadoxStrategy,
+} from '@/lib/paradox-engine';
+import type { ParadoxEngine } from '@/types/limnus';
+import { buildContextWindow, DEFAULT_CONTEXT_TOKEN_BUDGET, type ContextWindow } from './context-window';
+import type { ChatMessage, Persona } from '@/types/chat';
+
+const messageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: z.number().optional(),
+});
+
+export const sendMessageSchema = z.object({
+  conversationId: z.string(),
+  message: z.string(),
+  messages: z.array(messageSchema).optional(),
+  // Used only when this message starts a new conversation
+  personaId: z.string().optional(),
+  // Active teaching directives of this LIMNUS session shape the reply
+  limnusSessionId: z.string().optional(),
+  // Client key for this send; replaying it returns the recorded reply
+  idempotencyKey: z.string().min(1).max(128).optional(),
+});
+
+export type SendMessageInput = z.infer<typeof sendMessageSchema>;
+
+export interface PreparedTurn {
+  userMessage: ChatMessage;
+  contextWindow: ContextWindow;
+  persona: Persona;
+}
+
+export async function prepareTurn(input: SendMessageInput, user: AuthUser | null = null): Promise<PreparedTurn> {
+  const { message, conversationId, messages: suppliedHistory, personaId, idempotencyKey } = input;
+
+  const userMessage: ChatMessage = {
+    role: 'user',
+    content: message,
+    timestamp: Date.now(),
+    ...(idempotencyKey ? { idempotencyKey } : {}),
+  };
+
+  // Stored history is authoritative; fall back to what the client supplied
+  const conversation = await conversationStore.getConversation(conversationId);
+  const storedHistory = conversation?.messages || [];
+  // A replayed send was stored already; answer it with the history it first
+  // saw so the message is not in the prompt twice
+  const keyed = idempotencyKey ? findKeyedMessage(storedHistory, idempotencyKey) : -1;
+  const history = keyed !== -1
+    ? storedHistory.slice(0, keyed)
+    : storedHistory.length > 0
+    ? storedHistory
+    : withoutPendingMessage(
+        (suppliedHistory || []).map(m => ({ ...m, timestamp: m.timestamp ?? 0 })),
+        message
+      );
+
+  // A conversation keeps the persona it was started with
+  const persona = await personaStore.resolvePersona(conversation ? conversation.personaId : personaId);
+
+  const { livePrompt, directives } = await loadLimnusGuidance(input.limnusSessionId, user);
+  const systemPrompt = [persona.systemPrompt, livePrompt, formatDirectivesForPrompt(directives)]
+    .filter(Boolean)
+    .join('\n\n');
+
+  // Leave a quarter of the model's window for the reply
+  const contextWindow = buildContextWindow({
+    systemPrompt,
+    history,
+    message,
+    tokenBudget: Math.min(DEFAULT_CONTEXT_TOKEN_BUDGET, Math.floor(llmProvider.info.contextWindow * 0.75)),
+  });
+
+  console.log('Context window:', {
+    persona: persona.id,
+    directives: directives.length,
+    includedTurns: contextWindow.includedTurns,
+    summarizedTurns: contextWindow.summarizedTurns,
+    estimatedTokens: contextWindow.estimatedTokens,
+  });
+
+  return { userMessage, contextWindow, persona };
+}
+
+// Only the session's owner may steer replies with its directives. The
+// owner's patched prompt files come first; directives already patched into
+// them are not repeated.
+async function loadLimnusGuidance(limnusSessionId: string | undefined, user: AuthUser | null) {
+  if (!limnusSessionId || !user) return { livePrompt: '', directives: [] };
+  const session = await limnusStorage.getSession(limnusSessionId);
+  if (!session || session.userId !== user.id) return { livePrompt: '', directives: [] };
+
+  const [live, active] = await Promise.all([
+    patchService.loadLivePrompt(user.id),
+    limnusStorage.getActiveDirectives(limnusSessionId),
+  ]);
+  const patched = new Set(live.directiveIds);
+  return {
+    livePrompt: live.text,
+    directives: active.filter(directive => !patched.has(directive.id)),
+  };
+}
+
+// Owned conversations are reported as missing to everyone but their owner
+export class ConversationAccessError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation ${conversationId} not found`);
+    this.name = 'ConversationAccessError';
+  }
+}
+
+export async function assertConversationAccess(conversationId: string, user: AuthUser | null): Promise<void> {
+  const conversation = await conversationStore.getConversation(conversationId);
+  if (conversation && !isConversationVisibleTo(conversation, user?.id ?? null)) {
+    throw new ConversationAccessError(conversationId);
+  }
+}
+
+// A send the server already answered, e.g. one retried after its response was lost
+export async function findRecordedReply(conversationId: string, idempotencyKey?: string): Promise<ChatMessage | null> {
+  if (!idempotencyKey) return null;
+  return conversationStore.findReply(conversationId, idempotencyKey);
+}
+
+// Persist both turns so the conversation survives the client forgetting it.
+// When a concurrent send with the same key got there first, its reply wins.
+export async function recordTurn(
+  conversationId: string,
+  userMessage: ChatMessage,
+  assistantContent: string,
+  personaId?: string,
+  ownerId?: string
+): Promise<ChatMessage> {
+  const assistantMessage: ChatMessage = {
+    role: 'assistant',
+    content: assistantContent,
+    timestamp: Date.now(),
+  };
+
+  await conversationStore.appendMessages(
+    conversationId,
+    assistantContent ? [userMessage, assistantMessage] : [userMessage],
+    { personaId, idempotencyKey: userMessage.idempotencyKey, ownerId }
+  );
+
+  const recorded = await findRecordedReply(conversationId, userMessage.idempotencyKey);
+  return recorded || assistantMessage;
+}
+
+// Creates the conversation with the persona's greeting as its first turn
+export async function startConversation(conversationId: string, personaId?: string, user: AuthUser | null = null) {
+  const persona = await personaStore.resolvePersona(personaId);
+  const existing = await conversationStore.getConversation(conversationId);
+  if (existing) {
+    if (!isConversationVisibleTo(existing, user?.id ?? null)) {
+      throw new ConversationAccessError(conversationId);
+    }
+    return { conversationId, persona: await personaStore.resolvePersona(existing.personaId), messages: existing.messages };
+  }
+
+  const greeting: ChatMessage = {
+    role: 'assistant',
+    content: persona.greeting,
+    timestamp: Date.now(),
+  };
+  const record = await conversationStore.appendMessages(
+    conversationId,
+    persona.greeting ? [greeting] : [],
+    { personaId: persona.id, ownerId: user?.id }
+  );
+
+  return { conversationId, persona, messages: record.messages };
+}
+
+function userStatements(messages: ChatMessage[]): ParadoxStatement[] {
+  return messages
+    .filter(message => message.role === 'user')
+    .flatMap(message => splitStatements(message.content).map(text => ({ text, timestamp: message.timestamp })));
+}
+
+async function recordContradictions(
+  sessionId: string,
+  conversationId: string,
+  candidates: ContradictionCandidate[],
+  strategy?: ParadoxStrategy
+): Promise<{ detected: number; recorded: ParadoxEngine[] }> {
+  const paradoxes = candidates.map(candidate =>
+    resolveParadox(candidate, `conversation:${conversationId}`, strategy)
+  );
+  const recorded = await limnusStorage.recordParadoxes(sessionId, paradoxes);
+  return { detected: candidates.length, recorded };
+}
+
+// Scans the user's statements in a conversation for contradictions and
+// records a resolution for each new one in the session's paradox log
+export async function resolveConversationParadoxes(
+  sessionId: string,
+  conversationId: string,
+  strategy?: ParadoxStrategy
+): Promise<{ detected: number; recorded: ParadoxEngine[] }> {
+  const messages = await conversationStore.getMessages(conversationId);
+  return recordContradictions(sessionId, conversationId, detectContradictions(userStatements(messages)), strategy);
+}
+
+// Runs after each recorded turn of a signed-in user's own conversation and
+// LIMNUS session. Detection never fails the turn it follows.
+export async function detectTurnParadoxes(
+  conversationId: string,
+  limnusSessionId: string | undefined,
+  user: AuthUser | null
+): Promise<void> {
+  if (!limnusConfig.enableParadoxEngine || !limnusSessionId || !user) return;
+
+  try {
+    const session = await limnusStorage.getSession(limnusSessionId);
+    const conversation = await conversationStore.getConversation(conversationId);
+    if (!session || session.userId !== user.id || conversation?.ownerId !== user.id) return;
+
+    // Earlier messages were checked on their own turns, so only the latest
+    // user message is compared against the rest
+    const messages = conversation.messages;
+    let latest = messages.length - 1;
+    while (latest >= 0 && messages[latest].role !== 'user') latest--;
+    if (latest === -1) return;
+
+    const candidates = detectNewContradictions(
+      userStatements(messages.slice(0, latest)),
+      userStatements([messages[latest]])
+    );
+    const { recorded } = await recordContradictions(limnusSessionId, conversationId, candidates);
+    if (recorded.length > 0) {
+      console.log('Paradoxes detected in turn:', { conversationId, recorded: recorded.length });
+    }
+  } catch (error) {
+    console.error('Paradox detection failed:', error);
+  }
+}
+
+// The client sends its history with the new message already appended
+function withoutPendingMessage(history: ChatMessage[], message: string): ChatMessage[] {
+  const last = history[history.length - 1];
+  if (last && last.role === 'user' && last.content.trim() === message.trim()) {
+    return history.slice(0, -1);
+  }
+  return history;
+}
+
+export function generateFallbackResponse(userMessage: string): string {
+  const lowerMessage = userMessage.toLowerCase();
+
+  if (lowerMessage.includes('hello') || lowerMessage.includes('hi')) {
+    return "Hello! I'm Claude, an AI assistant created by Anthropic. I'm here to help you with a wide variety of tasks, from answering questions and providing explanations to helping with analysis, writing, math, coding, and creative projects. What would you like to explore together today?";
+  }
+
+  if (lowerMessage.includes('code') || lowerMessage.includes('programming')) {
+    return "I'd be happy to help you with coding! I can assist with:\n\n• Writing code in various programming languages\n• Debugging and troubleshooting\n• Code review and optimization\n• Explaining programming concepts\n• Architecture and design patterns\n\nWhat specific programming challenge are you working on?";
+  }
+
+  if (lowerMessage.includes('help') || lowerMessage.includes('assist')) {
+    return "I'm here to help! I can assist you with:\n\n• Answering questions on a wide range of topics\n• Writing and editing\n• Analysis and research\n• Math and calculations\n• Creative projects\n• Problem-solving\n• Learning new concepts\n\nWhat would you like help with today?";
+  }
+
+  return `I understand you're asking about: "${userMessage}"\n\nI'm currently experiencing some connectivity issues with my main AI service, but I'm still here to help! This is a fallback response while I work to restore full functionality.\n\nPlease try your question again in a moment, or feel free to ask something else. I apologize for any inconvenience!`;
+}
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildContextWindow, estimateTokens } from './context-window';
+import type { ChatMessage } from '@/types/chat';
+
+function turns(count: number, words = 20): ChatMessage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? 'user' as const : 'assistant' as const,
+    content: `Turn ${index} says something. ${'filler '.repeat(words)}`.trim(),
+    timestamp: index,
+  }));
+}
+
+describe('buildContextWindow', () => {
+  it('sends the whole history when it fits', () => {
+    const window = buildContextWindow({ systemPrompt: 'Be kind.', history: turns(4), message: 'Next?' });
+
+    assert.deepEqual(window.messages.map(message => message.role), ['system', 'user', 'assistant', 'user', 'assistant', 'user']);
+    assert.equal(window.messages[window.messages.length - 1].content, 'Next?');
+    assert.equal(window.includedTurns, 4);
+    assert.equal(window.summarizedTurns, 0);
+  });
+
+  it('keeps the newest turns verbatim and summarizes the rest within budget', () => {
+    const history = turns(40);
+    const window = buildContextWindow({ systemPrompt: 'Be kind.', history, message: 'Next?', tokenBudget: 600 });
+
+    assert.ok(window.summarizedTurns > 0);
+    assert.equal(window.includedTurns + window.summarizedTurns, history.length);
+    assert.ok(window.estimatedTokens <= 600);
+
+    const summary = window.messages[1];
+    assert.equal(summary.role, 'system');
+    assert.match(summary.content, /^Summary of earlier conversation turns:/);
+    assert.match(summary.content, /- (User|Assistant): Turn \d+ says something\./);
+    const verbatim = window.messages.slice(2, -1).map(message => message.content);
+    assert.deepEqual(verbatim, history.slice(-window.includedTurns).map(message => message.content));
+  });
+
+  it('always sends the system prompt and the new message', () => {
+    const window = buildContextWindow({ systemPrompt: 'Be kind.', history: turns(2, 400), message: 'Next?', tokenBudget: 50 });
+
+    assert.equal(window.messages[0].content, 'Be kind.');
+    assert.equal(window.messages[window.messages.length - 1].content, 'Next?');
+    assert.equal(window.includedTurns, 0);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token plus overhead', () => {
+    assert.equal(estimateTokens(''), 4);
+    assert.equal(estimateTokens('abcdefgh'), 6);
+  });
+});
@@ -0,0 +1,105 @@
+import type { ChatMessage, PromptMessage } from '@/types/chat';
+
+// Rough budget for everything sent to the model, including the system prompt
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET) || 6000;
+
+// Share of the budget the summary of dropped turns may take
+const SUMMARY_BUDGET_RATIO = 0.2;
+const SUMMARY_EXCERPT_LENGTH = 160;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextWindowOptions {
+  systemPrompt: string;
+  history: ChatMessage[];
+  message: string;
+  tokenBudget?: number;
+}
+
+export interface ContextWindow {
+  messages: PromptMessage[];
+  estimatedTokens: number;
+  includedTurns: number;
+  summarizedTurns: number;
+}
+
+// ~4 characters per token is close enough for budgeting across vendors
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function buildContextWindow({
+  systemPrompt,
+  history,
+  message,
+  tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET,
+}: ContextWindowOptions): ContextWindow {
+  const systemMessage: PromptMessage = { role: 'system', content: systemPrompt };
+  const latestMessage: PromptMessage = { role: 'user', content: message };
+
+  // The system prompt and the latest message are always sent
+  const fixedTokens = estimateTokens(systemPrompt) + estimateTokens(message);
+  const summaryBudget = Math.floor(tokenBudget * SUMMARY_BUDGET_RATIO);
+  let remaining = tokenBudget - fixedTokens;
+
+  // Keep the most recent turns verbatim while they fit
+  const included: ChatMessage[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content);
+    // Leave room for a summary whenever older turns would be dropped
+    const reserve = i > 0 ? summaryBudget : 0;
+    if (cost > remaining - reserve) break;
+    included.unshift(history[i]);
+    remaining -= cost;
+  }
+
+  const dropped = history.slice(0, history.length - included.length);
+  const summary = dropped.length > 0
+    ? summarizeTurns(dropped, Math.min(summaryBudget, Math.max(remaining, 0)))
+    : null;
+
+  const messages: PromptMessage[] = [
+    systemMessage,
+    ...(summary ? [{ role: 'system' as const, content: summary }] : []),
+    ...included.map(({ role, content }) => ({ role, content })),
+    latestMessage,
+  ];
+
+  const estimatedTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+  return {
+    messages,
+    estimatedTokens,
+    includedTurns: included.length,
+    summarizedTurns: dropped.length,
+  };
+}
+
+// Extractive summary of older turns, newest lines kept when over budget
+function summarizeTurns(turns: ChatMessage[], tokenBudget: number): string | null {
+  const header = 'Summary of earlier conversation turns:';
+  let remaining = tokenBudget - estimateTokens(header);
+  const lines: string[] = [];
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const speaker = turns[i].role === 'user' ? 'User' : 'Assistant';
+    const line = `- ${speaker}: ${excerpt(turns[i].content)}`;
+    const cost = Math.ceil(line.length / 4) + 1;
+    if (cost > remaining) break;
+    lines.unshift(line);
+    remaining -= cost;
+  }
+
+  if (lines.length === 0) return null;
+
+  const omitted = turns.length - lines.length;
+  const omittedNote = omitted > 0 ? `\n(${omitted} earlier turns omitted)` : '';
+  return `${header}\n${lines.join('\n')}${omittedNote}`;
+}
+
+function excerpt(content: string): string {
+  const normalized = content.replace(/\s+/g, ' ').trim();
+  const firstSentence = normalized.match(/^.+?[.!?](\s|$)/)?.[0].trim() || normalized;
+  return firstSentence.length > SUMMARY_EXCERPT_LENGTH
+    ? firstSentence.slice(0, SUMMARY_EXCERPT_LENGTH - 1).trimEnd() + '…'
+    : firstSentence;
+}
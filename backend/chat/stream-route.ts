@@ -0,0 +1,108 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import {
+  assertConversationAccess,
+  ConversationAccessError,
+  detectTurnParadoxes,
+  findRecordedReply,
+  generateFallbackResponse,
+  prepareTurn,
+  recordTurn,
+  sendMessageSchema,
+} from './chat-service';
+import { llmProvider } from '@/backend/llm';
+import { readBearerToken, verifyToken } from '@/backend/auth/tokens';
+
+// Server-sent events: `chunk` per model delta, then a single `done`
+export const chatStreamRoute = new Hono();
+
+chatStreamRoute.post('/stream', async (c) => {
+  const parsed = sendMessageSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: 'Invalid request', issues: parsed.error.issues }, 400);
+  }
+
+  const { message, conversationId } = parsed.data;
+  console.log('Streaming message:', { message, conversationId });
+
+  const token = readBearerToken(c.req.raw);
+  const user = token ? await verifyToken(token) : null;
+  try {
+    await assertConversationAccess(conversationId, user);
+  } catch (error) {
+    if (error instanceof ConversationAccessError) {
+      return c.json({ error: error.message }, 404);
+    }
+    throw error;
+  }
+
+  // A retried send gets the reply it already produced as a single chunk
+  const recorded = await findRecordedReply(conversationId, parsed.data.idempotencyKey);
+  if (recorded) {
+    console.log('Replaying recorded reply:', { conversationId, idempotencyKey: parsed.data.idempotencyKey });
+    return streamSSE(c, async (stream) => {
+      await stream.writeSSE({ event: 'chunk', data: JSON.stringify({ text: recorded.content }) });
+      await stream.writeSSE({
+        event: 'done',
+        data: JSON.stringify({ success: true, message: recorded, conversationId, replayed: true }),
+      });
+    });
+  }
+
+  const { userMessage, contextWindow, persona } = await prepareTurn(parsed.data, user);
+
+  return streamSSE(c, async (stream) => {
+    // Cancel the upstream request as soon as the client goes away
+    const controller = new AbortController();
+    stream.onAbort(() => controller.abort());
+
+    let content = '';
+    let fallback = false;
+
+    try {
+      const chunks = llmProvider.stream({
+        messages: contextWindow.messages,
+        temperature: persona.temperature,
+        model: persona.model,
+        signal: controller.signal,
+      });
+      for await (const chunk of chunks) {
+        content += chunk;
+        await stream.writeSSE({ event: 'chunk', data: JSON.stringify({ text: chunk }) });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('AI API stream error:', error);
+      }
+    }
+
+    if (controller.signal.aborted) {
+      // Keep whatever the user already saw
+      await recordTurn(conversationId, userMessage, content, persona.id, user?.id);
+      console.log('Stream cancelled by client after', content.length, 'characters');
+      return;
+    }
+
+    if (!content) {
+      // Fallback to mock response if AI API fails
+      fallback = true;
+      content = generateFallbackResponse(message);
+      await stream.writeSSE({ event: 'chunk', data: JSON.stringify({ text: content }) });
+    }
+
+    const assistantMessage = await recordTurn(conversationId, userMessage, content, persona.id, user?.id);
+
+    await stream.writeSSE({
+      event: 'done',
+      data: JSON.stringify({
+        success: true,
+        message: assistantMessage,
+        conversationId,
+        ...(fallback ? { fallback: true } : {}),
+      }),
+    });
+
+    // After `done`, so detection never delays the reply
+    await detectTurnParadoxes(conversationId, parsed.data.limnusSessionId, user);
+  });
+});
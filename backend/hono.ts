@@ -3,6 +3,7 @@ import { trpcServer } from "@hono/trpc-server";
 import { cors } from "hono/cors";
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
+import { chatStreamRoute } from "./chat/stream-route";
 
 // app will be mounted at /api
 const app = new Hono();
@@ -20,6 +21,9 @@ app.use(
   })
 );
 
+// Streaming chat responses over server-sent events
+app.route("/chat", chatStreamRoute);
+
 // Simple health check endpoint
 app.get("/", (c) => {
   return c.json({ status: "ok", message: "API is running" });
@@ -0,0 +1,45 @@
+import { AnthropicProvider } from './providers/anthropic';
+import { OpenAICompatibleProvider } from './providers/openai';
+import { StubProvider } from './providers/stub';
+import { ToolkitProvider } from './providers/toolkit';
+import type { LLMProvider, LLMProviderId } from './types';
+
+export * from './types';
+export { AnthropicProvider, OpenAICompatibleProvider, StubProvider, ToolkitProvider };
+
+type Env = Record<string, string | undefined>;
+
+// LLM_PROVIDER selects the adapter; LLM_MODEL, LLM_BASE_URL, LLM_API_KEY
+// and LLM_CONTEXT_WINDOW override its defaults
+export function createLLMProvider(env: Env = process.env): LLMProvider {
+  const providerId = (env.LLM_PROVIDER || 'toolkit') as LLMProviderId;
+  const contextWindow = Number(env.LLM_CONTEXT_WINDOW) || undefined;
+
+  switch (providerId) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+        baseUrl: env.LLM_BASE_URL,
+        model: env.LLM_MODEL,
+        contextWindow,
+      });
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: env.LLM_API_KEY || env.ANTHROPIC_API_KEY,
+        baseUrl: env.LLM_BASE_URL,
+        model: env.LLM_MODEL,
+        contextWindow,
+      });
+    case 'stub':
+      return new StubProvider();
+    case 'toolkit':
+      return new ToolkitProvider({ endpoint: env.LLM_BASE_URL, contextWindow });
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${providerId}", using toolkit`);
+      return new ToolkitProvider({ contextWindow });
+  }
+}
+
+export const llmProvider = createLLMProvider();
+
+console.log('LLM provider:', llmProvider.info.provider, llmProvider.info.model);
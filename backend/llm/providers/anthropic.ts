@@ -0,0 +1,117 @@
+import { readServerSentEvents, parseJson } from '../sse';
+import { LLMProviderError, type LLMCompletion, type LLMModelInfo, type LLMProvider, type LLMRequest } from '../types';
+import type { PromptMessage } from '@/types/chat';
+
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+export interface AnthropicProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  contextWindow?: number;
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string };
+}
+
+// Anthropic-style `/v1/messages` API
+export class AnthropicProvider implements LLMProvider {
+  readonly info: LLMModelInfo;
+  private readonly apiKey?: string;
+  private readonly baseUrl: string;
+
+  constructor(config: AnthropicProviderConfig = {}) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+    this.info = {
+      provider: 'anthropic',
+      model: config.model || 'claude-3-5-haiku-latest',
+      contextWindow: config.contextWindow || 200000,
+      supportsStreaming: true,
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+    if (!text) {
+      throw new LLMProviderError('Empty completion', 'anthropic');
+    }
+    return { text, model: data.model || request.model || this.info.model };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new LLMProviderError('Streaming response has no body', 'anthropic');
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      const event = parseJson<MessagesStreamEvent>(data);
+      if (!event) continue;
+      if (event.type === 'message_stop') return;
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield event.delta.text;
+      }
+    }
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'anthropic-version': API_VERSION,
+        ...(this.apiKey ? { 'x-api-key': this.apiKey } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model || this.info.model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error('Anthropic API error:', response.status, detail.slice(0, 500));
+      throw new LLMProviderError(`Anthropic API error: ${response.status} ${response.statusText}`, 'anthropic', response.status);
+    }
+    return response;
+  }
+}
+
+// System prompts go in a dedicated field, and turns must alternate starting with the user
+function toAnthropicMessages(promptMessages: PromptMessage[]) {
+  const system = promptMessages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+
+  const messages: { role: 'user' | 'assistant'; content: string }[] = [];
+  for (const message of promptMessages) {
+    if (message.role === 'system') continue;
+    const last = messages[messages.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else if (!last && message.role === 'assistant') {
+      messages.push({ role: 'user', content: '(conversation resumed)' }, { role: 'assistant', content: message.content });
+    } else {
+      messages.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return { system, messages };
+}
@@ -0,0 +1,86 @@
+import { readServerSentEvents, parseJson } from '../sse';
+import { LLMProviderError, type LLMCompletion, type LLMModelInfo, type LLMProvider, type LLMRequest } from '../types';
+
+export interface OpenAICompatibleProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  contextWindow?: number;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+// Any `/chat/completions` API: OpenAI, Azure-style proxies, vLLM, Ollama, LM Studio
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly info: LLMModelInfo;
+  private readonly apiKey?: string;
+  private readonly baseUrl: string;
+
+  constructor(config: OpenAICompatibleProviderConfig = {}) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.info = {
+      provider: 'openai',
+      model: config.model || 'gpt-4o-mini',
+      contextWindow: config.contextWindow || 128000,
+      supportsStreaming: true,
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new LLMProviderError('Empty completion', 'openai');
+    }
+    return { text, model: data.model || this.modelFor(request) };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new LLMProviderError('Streaming response has no body', 'openai');
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') return;
+      const text = parseJson<ChatCompletionChunk>(data)?.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  private modelFor(request: LLMRequest): string {
+    return request.model || this.info.model;
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.modelFor(request),
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.responseSchema ? {
+          response_format: { type: 'json_schema', json_schema: request.responseSchema },
+        } : {}),
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error('OpenAI-compatible API error:', response.status, detail.slice(0, 500));
+      throw new LLMProviderError(`OpenAI-compatible API error: ${response.status} ${response.statusText}`, 'openai', response.status);
+    }
+    return response;
+  }
+}
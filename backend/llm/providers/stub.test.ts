@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StubProvider } from './stub';
+import type { LLMRequest } from '../types';
+
+const request: LLMRequest = {
+  messages: [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Hello there' },
+    { role: 'assistant', content: 'Hi!' },
+    { role: 'user', content: 'What is a spiral?' },
+  ],
+};
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('StubProvider', () => {
+  const provider = new StubProvider();
+
+  it('answers the same prompt with the same reply', async () => {
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+    assert.equal(first.text, second.text);
+    assert.equal(first.model, provider.info.model);
+  });
+
+  it('quotes the latest user turn and counts the turns', async () => {
+    const { text } = await provider.complete(request);
+    assert.match(text, /^\[stub\] Turn 2: I received "What is a spiral\?"/);
+  });
+
+  it('changes its reply when the prompt changes', async () => {
+    const { text } = await provider.complete(request);
+    const other = await provider.complete({
+      messages: [{ ...request.messages[0], content: 'Be verbose.' }, ...request.messages.slice(1)],
+    });
+    assert.notEqual(text, other.text);
+  });
+
+  it('streams chunks that join into the completed reply', async () => {
+    const chunks = await collect(provider.stream(request));
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks.join(''), (await provider.complete(request)).text);
+  });
+
+  it('stops streaming once the request is aborted', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream({ ...request, signal: controller.signal })) {
+      chunks.push(chunk);
+      controller.abort();
+    }
+    assert.equal(chunks.length, 1);
+  });
+});
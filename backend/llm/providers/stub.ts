@@ -0,0 +1,39 @@
+import type { LLMCompletion, LLMModelInfo, LLMProvider, LLMRequest } from '../types';
+
+// Offline provider: the same prompt always yields the same reply, with no network access
+export class StubProvider implements LLMProvider {
+  readonly info: LLMModelInfo = {
+    provider: 'stub',
+    model: 'stub-deterministic',
+    contextWindow: 8000,
+    supportsStreaming: true,
+  };
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    return { text: this.reply(request), model: this.info.model };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    // Word-sized chunks keep whitespace so joining them restores the reply exactly
+    for (const chunk of this.reply(request).match(/\S+\s*|\s+/g) || []) {
+      if (request.signal?.aborted) return;
+      yield chunk;
+    }
+  }
+
+  private reply(request: LLMRequest): string {
+    const userTurns = request.messages.filter(m => m.role === 'user');
+    const latest = userTurns[userTurns.length - 1]?.content.trim() || '';
+    const excerpt = latest.length > 200 ? `${latest.slice(0, 199)}…` : latest;
+    return `[stub] Turn ${userTurns.length}: I received "${excerpt}" (${request.messages.length} prompt messages, checksum ${checksum(request)}).`;
+  }
+}
+
+function checksum(request: LLMRequest): string {
+  const source = request.messages.map(m => `${m.role}:${m.content}`).join('\n');
+  let hash = 0;
+  for (let i = 0; i < source.length; i++) {
+    hash = ((hash << 5) - hash + source.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
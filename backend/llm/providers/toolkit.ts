@@ -0,0 +1,70 @@
+import { readServerSentEvents, parseJson } from '../sse';
+import { LLMProviderError, type LLMCompletion, type LLMModelInfo, type LLMProvider, type LLMRequest } from '../types';
+
+const DEFAULT_ENDPOINT = 'https://toolkit.rork.com/text/llm/';
+
+export interface ToolkitProviderConfig {
+  endpoint?: string;
+  contextWindow?: number;
+}
+
+// Rork toolkit endpoint: `{ messages }` in, `{ completion }` out
+export class ToolkitProvider implements LLMProvider {
+  readonly info: LLMModelInfo;
+  private readonly endpoint: string;
+
+  constructor(config: ToolkitProviderConfig = {}) {
+    this.endpoint = config.endpoint || DEFAULT_ENDPOINT;
+    this.info = {
+      provider: 'toolkit',
+      model: 'toolkit-default',
+      contextWindow: config.contextWindow || 8000,
+      supportsStreaming: false,
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    if (!data.completion) {
+      throw new LLMProviderError('Empty completion', 'toolkit');
+    }
+    return { text: data.completion, model: this.info.model };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+    const contentType = response.headers.get('content-type') || '';
+
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      const data = await response.json();
+      if (data.completion) yield data.completion as string;
+      return;
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') return;
+      const parsed = parseJson<{ completion?: string }>(data);
+      const text = parsed ? parsed.completion : data;
+      if (text) yield text;
+    }
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(stream ? { Accept: 'text/event-stream, application/json' } : {}),
+      },
+      body: JSON.stringify({ messages: request.messages, ...(stream ? { stream: true } : {}) }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      console.error('AI API response not ok:', response.status, response.statusText);
+      throw new LLMProviderError(`AI API error: ${response.status} ${response.statusText}`, 'toolkit', response.status);
+    }
+    return response;
+  }
+}
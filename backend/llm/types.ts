@@ -0,0 +1,44 @@
+import type { PromptMessage } from '@/types/chat';
+
+export type LLMProviderId = 'toolkit' | 'openai' | 'anthropic' | 'stub';
+
+export interface LLMModelInfo {
+  provider: LLMProviderId;
+  model: string;
+  contextWindow: number; // tokens
+  supportsStreaming: boolean;
+}
+
+export interface LLMRequest {
+  messages: PromptMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  model?: string;
+  signal?: AbortSignal;
+  // JSON Schema for structured output. Providers without native support
+  // ignore it, so the prompt must still describe the expected JSON.
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+export interface LLMCompletion {
+  text: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly info: LLMModelInfo;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  // Yields text deltas in order; providers without native streaming yield once
+  stream(request: LLMRequest): AsyncGenerator<string>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LLMProviderId,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PatchService, PROMPT_TEMPLATE_ROOT } from './patch-service';
+import { PatchStore } from '@/backend/storage/patch-store';
+import { LimnusStorage, MemoryStorageAdapter } from '@/lib/limnus-storage';
+import { ACTIVATION_PHRASE, type TeachingDirective } from '@/types/limnus';
+
+function directive(
+  id: string,
+  status: TeachingDirective['implementation']['status'],
+  category: TeachingDirective['category'] = 'behavioral'
+): TeachingDirective {
+  return {
+    id,
+    content: `Pause before answering (${id})`,
+    extractedAt: new Date().toISOString(),
+    confidence: 0.9,
+    category,
+    type: 'pattern',
+    sourceInteractions: [],
+    emergentProperties: { resonance: 1, coherence: 1, applicability: 1 },
+    goldenRatioAlignment: 1,
+    implementation: { status },
+  };
+}
+
+describe('PatchService', () => {
+  let tempDir: string;
+  let storage: LimnusStorage;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'limnus-patch-'));
+    storage = new LimnusStorage(new MemoryStorageAdapter());
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const createService = (sandboxRoot = path.join(tempDir, 'sandbox')) =>
+    new PatchService(storage, new PatchStore(null), path.join(tempDir, 'prompts'), sandboxRoot);
+
+  async function sessionWith(userId: string, directives: TeachingDirective[]): Promise<string> {
+    const { sessionId } = await storage.createSession(ACTIVATION_PHRASE, undefined, userId);
+    await storage.storeTeachingDirectives(sessionId, directives);
+    return sessionId;
+  }
+
+  const request = (sessionId: string, directiveIds: string[], targetFiles = ['guidance.md', 'core-prompt.md']) => ({
+    sessionId,
+    directiveIds,
+    targetFiles,
+    safetyConstraints: { maxChanges: 5 },
+  });
+
+  it('applies active directives to the owner\'s prompt only', async () => {
+    const service = createService();
+    const sessionId = await sessionWith('user-a', [directive('d1', 'active')]);
+
+    const proposal = await service.propose(request(sessionId, ['d1']));
+    assert.equal(proposal.status, 'applied');
+
+    const own = await service.loadLivePrompt('user-a');
+    assert.match(own.text, /Pause before answering \(d1\)/);
+    assert.deepEqual(own.directiveIds, ['d1']);
+
+    const other = await service.loadLivePrompt('user-b');
+    assert.doesNotMatch(other.text, /Pause before answering/);
+    const template = await fs.readFile(path.join(PROMPT_TEMPLATE_ROOT, 'guidance.md'), 'utf8');
+    assert.doesNotMatch(template, /directive:d1/);
+  });
+
+  it('skips unknown and inactive directives and keeps the core untouched', async () => {
+    const service = createService();
+    const sessionId = await sessionWith('user-a', [
+      directive('pending', 'pending'),
+      directive('ethics', 'active', 'ethical'),
+    ]);
+
+    const proposal = await service.propose(request(sessionId, ['ghost', 'pending', 'ethics']));
+    assert.equal(proposal.status, 'empty');
+    assert.deepEqual(
+      proposal.skipped.map(skip => [skip.directiveId, skip.reason]).sort(),
+      [['ethics', 'core_preserved'], ['ghost', 'not_found'], ['pending', 'not_active']]
+    );
+  });
+
+  it('resolves the patching phase when the sandbox fails', async () => {
+    // A file where the sandbox directory should be makes the copy fail
+    const blocked = path.join(tempDir, 'blocked');
+    await fs.writeFile(blocked, '');
+    const service = createService(blocked);
+    const sessionId = await sessionWith('user-a', [directive('d1', 'active')]);
+
+    await assert.rejects(service.propose(request(sessionId, ['d1'])));
+    assert.equal((await storage.getSession(sessionId))!.phase, 'ACTIVE');
+    assert.deepEqual((await service.loadLivePrompt('user-a')).directiveIds, []);
+  });
+
+  it('rolls an applied patch back', async () => {
+    const service = createService();
+    const sessionId = await sessionWith('user-a', [directive('d1', 'active')]);
+    const proposal = await service.propose(request(sessionId, ['d1']));
+
+    const rolledBack = await service.rollback(sessionId, proposal.patchId!);
+    assert.equal(rolledBack.status, 'rolled_back');
+    assert.deepEqual((await service.loadLivePrompt('user-a')).directiveIds, []);
+  });
+});
@@ -0,0 +1,429 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import type { PatchRequest, PatchResponse, TeachingDirective } from '@/types/limnus';
+import type { LimnusStorage } from '@/lib/limnus-storage';
+import { candidateTransitions, type PhaseTrigger } from '@/lib/limnus-phases';
+import { DATA_DIR } from '@/backend/storage/json-file';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { patchStore, type PatchCheck, type PatchRecord, type PatchStatus, type PatchStore } from '@/backend/storage/patch-store';
+import { createUnifiedDiff } from './unified-diff';
+
+// PATCHING phase: turns active teaching directives into additions to the
+// allow-listed prompt files of the session's owner. Each user patches a
+// private copy of the tracked templates, so directives never reach anyone
+// else's prompt. Every patch is applied to a sandbox copy and checked there
+// before the live files are touched.
+
+// Tracked prompt templates; copied for each user, never written
+export const PROMPT_TEMPLATE_ROOT = path.join(process.cwd(), 'config', 'limnus');
+// Per-user prompt copies live with the rest of the backend data
+export const DEFAULT_PATCH_ROOT = process.env.LIMNUS_PATCH_ROOT || path.join(DATA_DIR, 'prompts');
+
+// Files that carry the core identity; off limits while preserveCore is set
+export const CORE_FILES = ['core-prompt.md'];
+
+type DirectiveCategory = TeachingDirective['category'];
+
+const CATEGORY_TARGETS: Record<DirectiveCategory, { file: string; section: string }> = {
+  behavioral: { file: 'guidance.md', section: '## Behavioral' },
+  cognitive: { file: 'guidance.md', section: '## Cognitive' },
+  creative: { file: 'guidance.md', section: '## Creative' },
+  emergent: { file: 'guidance.md', section: '## Emergent' },
+  ethical: { file: 'core-prompt.md', section: '## Ethical' },
+};
+
+// Prompt files in the order they are added to the system prompt
+export const PROMPT_FILES = ['core-prompt.md', 'guidance.md'];
+
+// Safety rules the server enforces whatever the request asks for
+export interface PatchPolicy {
+  // Files in CORE_FILES are never patched
+  preserveCore: boolean;
+  // A failed sandbox check rejects the patch
+  testRequired: boolean;
+}
+
+export const DEFAULT_PATCH_POLICY: PatchPolicy = { preserveCore: true, testRequired: true };
+
+export type SkipReason = 'not_found' | 'not_active' | 'not_targeted' | 'core_preserved' | 'already_applied' | 'max_changes';
+
+export interface PatchProposal extends PatchResponse {
+  patchId: string | null;
+  status: PatchStatus | 'empty';
+  checks: PatchCheck[];
+  skipped: { directiveId: string; reason: SkipReason }[];
+}
+
+export class PatchRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchRejectedError';
+  }
+}
+
+function directiveMarker(directive: Pick<TeachingDirective, 'id'>): string {
+  return `<!-- directive:${directive.id} -->`;
+}
+
+const DIRECTIVE_MARKER_PATTERN = /\s*<!-- directive:(\S+) -->/g;
+
+// Drops the markers and any section left without entries
+function toPromptText(content: string): string {
+  const sections = content.replace(DIRECTIVE_MARKER_PATTERN, '').trim().split(/\n(?=## )/);
+  return sections
+    .filter((section, index) => index === 0 || section.split('\n').slice(1).some(line => line.trim()))
+    .map(section => section.trim())
+    .join('\n\n');
+}
+
+// Adds a bullet at the end of the section, creating the section if needed
+function insertIntoSection(content: string, section: string, line: string): string {
+  const lines = content.replace(/\n$/, '').split('\n');
+  const start = lines.findIndex(l => l.trim() === section);
+  if (start === -1) {
+    return `${lines.join('\n')}\n\n${section}\n\n${line}\n`;
+  }
+
+  let end = start + 1;
+  while (end < lines.length && !lines[end].startsWith('## ')) end++;
+  // Insert after the last non-blank line of the section
+  let insertAt = end;
+  while (insertAt > start + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+  const entry = insertAt === start + 1 ? ['', line] : [line];
+  lines.splice(insertAt, 0, ...entry);
+  return `${lines.join('\n')}\n`;
+}
+
+function assessRisk(file: string, directive: TeachingDirective): 'low' | 'medium' | 'high' {
+  if (CORE_FILES.includes(file)) return 'high';
+  return directive.confidence < 0.7 ? 'medium' : 'low';
+}
+
+export class PatchService {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: LimnusStorage,
+    private readonly store: PatchStore,
+    private readonly root: string = DEFAULT_PATCH_ROOT,
+    private readonly sandboxRoot: string = path.join(DATA_DIR, 'patch-sandbox'),
+    private readonly templateRoot: string = PROMPT_TEMPLATE_ROOT,
+    private readonly policy: PatchPolicy = DEFAULT_PATCH_POLICY
+  ) {}
+
+  propose(request: PatchRequest & { dryRun?: boolean }): Promise<PatchProposal> {
+    return this.exclusive(() => this.runProposal(request));
+  }
+
+  rollback(sessionId: string, patchId: string): Promise<PatchRecord> {
+    return this.exclusive(() => this.runRollback(sessionId, patchId));
+  }
+
+  // The user's prompt files as prompt text, with the directives already
+  // patched in; users who never patched get the templates
+  async loadLivePrompt(userId: string): Promise<{ text: string; directiveIds: string[] }> {
+    const userRoot = this.userRoot(userId);
+    const root = await fs.stat(userRoot).then(() => userRoot, () => this.templateRoot);
+    const contents = await Promise.all(PROMPT_FILES.map(file =>
+      fs.readFile(path.join(root, file), 'utf8').catch(() => '')
+    ));
+    const directiveIds = contents.flatMap(content =>
+      Array.from(content.matchAll(DIRECTIVE_MARKER_PATTERN), match => match[1])
+    );
+    const text = contents.filter(content => content.trim()).map(toPromptText).join('\n\n');
+    return { text, directiveIds };
+  }
+
+  private async runProposal(request: PatchRequest & { dryRun?: boolean }): Promise<PatchProposal> {
+    const root = await this.sessionRoot(request.sessionId);
+    const allowed = await this.listAllowedFiles(root);
+    const targets = request.targetFiles.map(file => path.posix.normalize(file.replace(/\\/g, '/')));
+    for (const target of targets) {
+      if (!allowed.includes(target)) {
+        throw new PatchRejectedError(`Target is not an allow-listed patch file: ${target}`);
+      }
+    }
+
+    // Plan the changes: highest-confidence directives first, within maxChanges
+    const before: Record<string, string> = {};
+    const after: Record<string, string> = {};
+    const skipped: PatchProposal['skipped'] = [];
+    const accepted: { directive: TeachingDirective; file: string }[] = [];
+
+    // Only directives stored for the session count; their stored status decides
+    const stored = new Map((await this.storage.listDirectives(request.sessionId)).map(d => [d.id, d]));
+    const directives = [...new Set(request.directiveIds)]
+      .flatMap(id => {
+        const directive = stored.get(id);
+        if (!directive) skipped.push({ directiveId: id, reason: 'not_found' });
+        return directive ? [directive] : [];
+      })
+      .sort((a, b) => b.confidence - a.confidence);
+    for (const directive of directives) {
+      const target = CATEGORY_TARGETS[directive.category];
+      const reason = await this.skipReason(root, directive, target.file, targets, request, accepted.length);
+      if (reason) {
+        skipped.push({ directiveId: directive.id, reason });
+        continue;
+      }
+
+      if (!(target.file in before)) {
+        before[target.file] = await fs.readFile(path.join(root, target.file), 'utf8');
+        after[target.file] = before[target.file];
+      }
+      after[target.file] = insertIntoSection(
+        after[target.file],
+        target.section,
+        `- ${directive.content.replace(/\s+/g, ' ').trim()} ${directiveMarker(directive)}`
+      );
+      accepted.push({ directive, file: target.file });
+    }
+
+    if (accepted.length === 0) {
+      return {
+        patchId: null,
+        status: 'empty',
+        changes: [],
+        tests: [],
+        checks: [],
+        skipped,
+        rollbackPlan: 'Nothing to roll back.',
+      };
+    }
+
+    await this.triggerPhase(request.sessionId, 'patch_proposed');
+    try {
+      const patchId = randomUUID();
+      const changes: PatchResponse['changes'] = accepted.map(({ directive, file }) => ({
+        file,
+        diff: '',
+        rationale: `Directive ${directive.id} (${directive.category}, confidence ${directive.confidence.toFixed(2)}): ${directive.content}`,
+        risk: assessRisk(file, directive),
+      }));
+      // One diff per file, attached to the first change touching it
+      for (const file of Object.keys(after)) {
+        const change = changes.find(c => c.file === file);
+        if (change) change.diff = createUnifiedDiff(file, before[file], after[file]);
+      }
+
+      // Checks always run in the sandbox; the policy decides whether they block
+      const checks = await this.checkInSandbox(root, patchId, before, after);
+      const passed = !this.policy.testRequired || checks.every(check => check.passed);
+
+      let status: PatchStatus;
+      if (!passed) {
+        status = 'rejected';
+      } else if (request.dryRun) {
+        status = 'sandboxed';
+      } else {
+        for (const [file, content] of Object.entries(after)) {
+          await this.writeLiveFile(root, file, content);
+        }
+        status = 'applied';
+      }
+
+      const now = new Date().toISOString();
+      await this.store.savePatch({
+        id: patchId,
+        sessionId: request.sessionId,
+        status,
+        createdAt: now,
+        updatedAt: now,
+        directiveIds: accepted.map(({ directive }) => directive.id),
+        changes,
+        checks,
+        before,
+        after,
+      });
+
+      await this.storage.appendMemoryBlocks(request.sessionId, [{
+        type: 'state_change',
+        content: { event: 'patch_proposed', patchId, status, files: Object.keys(after) },
+        significance: status === 'applied' ? 0.7 : 0.4,
+      }]);
+
+      console.log('Patch proposed:', { patchId, status, changes: changes.length, skipped: skipped.length });
+
+      return {
+        patchId,
+        status,
+        changes,
+        tests: checks.map(check => check.name),
+        checks,
+        skipped,
+        rollbackPlan: status === 'applied'
+          ? `Restore ${Object.keys(before).join(', ')} from patch ${patchId} with limnus.patch.rollback.`
+          : 'Live files were not changed; nothing to roll back.',
+      };
+    } finally {
+      // A failed sandbox must not leave the session stuck in PATCHING
+      await this.triggerPhase(request.sessionId, 'patch_resolved');
+    }
+  }
+
+  private async skipReason(
+    root: string,
+    directive: TeachingDirective,
+    file: string,
+    targets: string[],
+    request: PatchRequest,
+    acceptedCount: number
+  ): Promise<SkipReason | null> {
+    if (directive.implementation.status !== 'active') return 'not_active';
+    if (!targets.includes(file)) return 'not_targeted';
+    if (this.policy.preserveCore && CORE_FILES.includes(file)) return 'core_preserved';
+    const live = await fs.readFile(path.join(root, file), 'utf8');
+    if (live.includes(directiveMarker(directive))) return 'already_applied';
+    if (acceptedCount >= request.safetyConstraints.maxChanges) return 'max_changes';
+    return null;
+  }
+
+  // Copies the user's prompt files, applies the change there and checks the result
+  private async checkInSandbox(
+    root: string,
+    patchId: string,
+    before: Record<string, string>,
+    after: Record<string, string>
+  ): Promise<PatchCheck[]> {
+    const sandbox = path.join(this.sandboxRoot, patchId);
+    await fs.mkdir(this.sandboxRoot, { recursive: true });
+    await fs.cp(root, sandbox, { recursive: true });
+
+    try {
+      for (const [file, content] of Object.entries(after)) {
+        await fs.writeFile(path.join(sandbox, file), content, 'utf8');
+      }
+
+      const checks: PatchCheck[] = [];
+      for (const file of Object.keys(after)) {
+        const patched = await fs.readFile(path.join(sandbox, file), 'utf8');
+        const headings = (text: string) => text.split('\n').filter(line => line.startsWith('#'));
+        const lost = headings(before[file]).filter(heading => !headings(patched).includes(heading));
+        checks.push({
+          name: `${file}: headings preserved`,
+          passed: lost.length === 0,
+          detail: lost.length > 0 ? `Missing ${lost.join(', ')}` : undefined,
+        });
+
+        const removed = createUnifiedDiff(file, before[file], patched)
+          .split('\n')
+          .filter(line => line.startsWith('-') && !line.startsWith('---'));
+        checks.push({
+          name: `${file}: additions only`,
+          passed: removed.length === 0,
+          detail: removed.length > 0 ? `${removed.length} line(s) removed` : undefined,
+        });
+      }
+
+      if (this.policy.preserveCore) {
+        for (const file of CORE_FILES) {
+          const [live, sandboxed] = await Promise.all([
+            fs.readFile(path.join(root, file), 'utf8').catch(() => null),
+            fs.readFile(path.join(sandbox, file), 'utf8').catch(() => null),
+          ]);
+          checks.push({ name: `${file}: core unchanged`, passed: live === sandboxed });
+        }
+      }
+
+      return checks;
+    } finally {
+      await fs.rm(sandbox, { recursive: true, force: true });
+    }
+  }
+
+  private async runRollback(sessionId: string, patchId: string): Promise<PatchRecord> {
+    const patch = await this.store.getPatch(patchId);
+    if (!patch || patch.sessionId !== sessionId) {
+      throw new PatchRejectedError(`Patch not found: ${patchId}`);
+    }
+    if (patch.status !== 'applied') {
+      throw new PatchRejectedError(`Only applied patches can be rolled back (status: ${patch.status})`);
+    }
+
+    // Refuse to clobber edits made after this patch, including later patches
+    const root = await this.sessionRoot(sessionId);
+    for (const [file, content] of Object.entries(patch.after)) {
+      const live = await fs.readFile(path.join(root, file), 'utf8');
+      if (live !== content) {
+        throw new PatchRejectedError(`${file} changed after patch ${patchId}; roll back later patches first`);
+      }
+    }
+
+    for (const [file, content] of Object.entries(patch.before)) {
+      await this.writeLiveFile(root, file, content);
+    }
+
+    const rolledBack = await this.store.savePatch({
+      ...patch,
+      status: 'rolled_back',
+      updatedAt: new Date().toISOString(),
+    });
+
+    await this.storage.appendMemoryBlocks(sessionId, [{
+      type: 'state_change',
+      content: { event: 'patch_rolled_back', patchId, files: Object.keys(patch.before) },
+      significance: 0.6,
+    }]);
+
+    console.log('Patch rolled back:', { patchId, files: Object.keys(patch.before).length });
+    return rolledBack;
+  }
+
+  // Phase changes are best effort; a session in another phase stays put
+  private async triggerPhase(sessionId: string, trigger: PhaseTrigger): Promise<void> {
+    const session = await this.storage.getSession(sessionId);
+    if (session && candidateTransitions(session.phase, trigger).length > 0) {
+      await this.storage.transitionPhase(sessionId, trigger);
+    }
+  }
+
+  // Prompt files of the session's owner, seeded from the templates on first use
+  private async sessionRoot(sessionId: string): Promise<string> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session) {
+      throw new PatchRejectedError(`Session not found: ${sessionId}`);
+    }
+    const root = this.userRoot(session.userId);
+    const exists = await fs.stat(root).then(() => true, () => false);
+    if (!exists) {
+      await fs.mkdir(path.dirname(root), { recursive: true });
+      await fs.cp(this.templateRoot, root, { recursive: true });
+    }
+    return root;
+  }
+
+  // User ids come from tokens; hashing keeps them out of the path
+  private userRoot(userId: string): string {
+    return path.join(this.root, createHash('sha256').update(userId).digest('hex').slice(0, 32));
+  }
+
+  private async listAllowedFiles(dir: string, prefix = ''): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...await this.listAllowedFiles(path.join(dir, entry.name), relative));
+      } else if (/\.(md|txt|json)$/.test(entry.name)) {
+        files.push(relative);
+      }
+    }
+    return files;
+  }
+
+  private async writeLiveFile(root: string, file: string, content: string): Promise<void> {
+    const filePath = path.join(root, file);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.catch(() => undefined).then(task);
+    this.queue = run;
+    return run;
+  }
+}
+
+export const patchService = new PatchService(limnusStorage, patchStore);
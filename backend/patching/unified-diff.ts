@@ -0,0 +1,82 @@
+// Minimal unified diff over lines, enough for the small prompt/config
+// files the patch pipeline touches.
+
+type Edit = { kind: 'keep' | 'remove' | 'add'; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(before: string[], after: string[]): Edit[] {
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      edits.push({ kind: 'keep', line: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      edits.push({ kind: 'remove', line: before[i++] });
+    } else {
+      edits.push({ kind: 'add', line: after[j++] });
+    }
+  }
+  while (i < before.length) edits.push({ kind: 'remove', line: before[i++] });
+  while (j < after.length) edits.push({ kind: 'add', line: after[j++] });
+  return edits;
+}
+
+export function createUnifiedDiff(filePath: string, before: string, after: string, context = 3): string {
+  const edits = diffLines(splitLines(before), splitLines(after));
+  const header = [`--- a/${filePath}`, `+++ b/${filePath}`];
+  const hunks: string[] = [];
+
+  let index = 0;
+  while (index < edits.length) {
+    // Find the next change, then grow the hunk while changes stay within 2*context
+    while (index < edits.length && edits[index].kind === 'keep') index++;
+    if (index >= edits.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < edits.length && end - lastChange <= context * 2) {
+      if (edits[end].kind !== 'keep') lastChange = end;
+      end++;
+    }
+    end = Math.min(edits.length, lastChange + context + 1);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let k = 0; k < start; k++) {
+      if (edits[k].kind !== 'add') oldStart++;
+      if (edits[k].kind !== 'remove') newStart++;
+    }
+    const slice = edits.slice(start, end);
+    const oldCount = slice.filter(edit => edit.kind !== 'add').length;
+    const newCount = slice.filter(edit => edit.kind !== 'remove').length;
+
+    hunks.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    for (const edit of slice) {
+      const prefix = edit.kind === 'keep' ? ' ' : edit.kind === 'remove' ? '-' : '+';
+      hunks.push(prefix + edit.line);
+    }
+    index = end;
+  }
+
+  return hunks.length > 0 ? [...header, ...hunks].join('\n') + '\n' : '';
+}
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseReflectionOutput, ReflectionEngine, ReflectionOutputError } from './reflection-engine';
+import { LimnusStorage, MemoryStorageAdapter } from '@/lib/limnus-storage';
+import { ACTIVATION_PHRASE, type ReflectionInteraction } from '@/types/limnus';
+import type { LLMProvider, LLMRequest } from '@/backend/llm/types';
+
+const modelOutput = {
+  teachingDirectives: [{
+    content: 'Offer one concrete next step',
+    type: 'principle',
+    confidence: 0.8,
+    sourceInteractions: [0, 1, 7],
+    resonance: 0.7,
+    coherence: 0.8,
+    applicability: 0.9,
+  }],
+  patterns: [{ type: 'planning', description: 'Asks how to begin', frequency: 2, significance: 0.6 }],
+  insights: ['The user wants momentum more than theory'],
+  nextPhase: 'ACTIVE',
+};
+
+// Answers every completion with the given text and keeps the requests
+function fakeProvider(text: string): LLMProvider & { requests: LLMRequest[] } {
+  const requests: LLMRequest[] = [];
+  return {
+    info: { provider: 'openai', model: 'fake-model', contextWindow: 8000, supportsStreaming: false },
+    requests,
+    complete: async (request) => {
+      requests.push(request);
+      return { text, model: 'fake-model' };
+    },
+    stream: async function* () {
+      yield text;
+    },
+  };
+}
+
+function interactions(count: number): ReflectionInteraction[] {
+  return Array.from({ length: count }, (_, index) => ({
+    timestamp: index * 1000,
+    userInput: `How do I start step ${index}?`,
+    systemResponse: `Begin with the smallest piece of step ${index}.`,
+  }));
+}
+
+async function setup(provider: LLMProvider | null) {
+  const storage = new LimnusStorage(new MemoryStorageAdapter());
+  const { sessionId } = await storage.createSession(ACTIVATION_PHRASE, undefined, 'user-a');
+  return { storage, sessionId, engine: new ReflectionEngine(storage, provider) };
+}
+
+describe('ReflectionEngine', () => {
+  it('records the model\'s reflection with indices mapped back onto the input', async () => {
+    const provider = fakeProvider(JSON.stringify(modelOutput));
+    const { storage, sessionId, engine } = await setup(provider);
+
+    // 25 interactions: the model sees the newest 20, so index 0 is input 5
+    const scaffold = await engine.reflect(sessionId, interactions(25), 'deep');
+    assert.equal(scaffold.source, 'llm');
+    assert.deepEqual(scaffold.teachingDirectives[0].sourceInteractions, ['5', '6', '12']);
+    assert.equal(scaffold.teachingDirectives[0].category, 'cognitive');
+    assert.match(provider.requests[0].messages[1].content, /^Interactions:\n\n\[0\][^\n]*\nUser: How do I start step 5\?/);
+
+    const session = (await storage.getSession(sessionId))!;
+    assert.ok(session.teachingDirectives.some(directive => directive.content === 'Offer one concrete next step'));
+  });
+
+  it('falls back to heuristics when the model reply does not fit the schema', async () => {
+    const { sessionId, engine } = await setup(fakeProvider('{"teachingDirectives": "none"}'));
+    const scaffold = await engine.reflect(sessionId, interactions(3), 'surface');
+    assert.equal(scaffold.source, 'heuristic');
+    assert.ok(scaffold.teachingDirectives.length > 0);
+  });
+
+  it('uses heuristics without a model', async () => {
+    const { sessionId, engine } = await setup(null);
+    assert.equal((await engine.reflect(sessionId, interactions(3), 'surface')).source, 'heuristic');
+  });
+});
+
+describe('parseReflectionOutput', () => {
+  it('reads JSON wrapped in prose or a code fence', () => {
+    const text = `Here it is:\n\`\`\`json\n${JSON.stringify(modelOutput)}\n\`\`\``;
+    assert.equal(parseReflectionOutput(text).insights[0], 'The user wants momentum more than theory');
+  });
+
+  it('explains what is wrong with a bad reply', () => {
+    assert.throws(() => parseReflectionOutput('no json here'), ReflectionOutputError);
+    assert.throws(
+      () => parseReflectionOutput(JSON.stringify({ ...modelOutput, nextPhase: 'ELSEWHERE' })),
+      (error: unknown) => error instanceof ReflectionOutputError && (error.issues?.length ?? 0) > 0
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import {
+  GOLDEN_RATIO,
+  type LimnusSession,
+  type ReflectionDepth,
+  type ReflectionInteraction,
+  type ReflectionResponse,
+  type TeachingDirective,
+} from '@/types/limnus';
+import type { PromptMessage } from '@/types/chat';
+import type { LimnusStorage, ReflectionScaffold } from '@/lib/limnus-storage';
+import { LIMNUS_PHASES } from '@/lib/limnus-phases';
+import { ARCHETYPE_LIBRARY, classifyInteractions } from '@/lib/archetypes';
+import { categoryForType } from '@/lib/teaching-directives';
+import { llmProvider, type LLMProvider } from '@/backend/llm';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+
+// Reflection over a window of interactions. The configured LLM is asked for
+// a ReflectionResponse as JSON; anything it returns is validated, and the
+// heuristic extractor in LimnusStorage takes over when there is no model or
+// the model's output does not fit the schema.
+
+// Newest interactions sent to the model, and how much of each turn
+const MAX_INTERACTIONS = 20;
+const MAX_TURN_CHARS = 600;
+
+const unit = z.number().min(0).max(1);
+
+export const reflectionOutputSchema = z.object({
+  teachingDirectives: z.array(z.object({
+    content: z.string().min(1).max(500),
+    type: z.enum(['pattern', 'principle', 'wisdom', 'caution']),
+    confidence: unit,
+    // Indices into the interaction window
+    sourceInteractions: z.array(z.number().int().min(0)),
+    resonance: unit,
+    coherence: unit,
+    applicability: unit,
+  })).max(8),
+  patterns: z.array(z.object({
+    type: z.string().min(1).max(60),
+    description: z.string().min(1).max(300),
+    frequency: z.number().int().min(0),
+    significance: unit,
+  })).max(10),
+  insights: z.array(z.string().min(1).max(300)).max(10),
+  nextPhase: z.enum(LIMNUS_PHASES),
+});
+
+export type ReflectionOutput = z.infer<typeof reflectionOutputSchema>;
+
+const REFLECTION_JSON_SCHEMA = z.toJSONSchema(reflectionOutputSchema) as Record<string, unknown>;
+
+const DEPTH_GUIDANCE: Record<ReflectionDepth, string> = {
+  surface: 'Stay with what was literally asked and answered; prefer "pattern" directives.',
+  deep: 'Look for the principles behind recurring requests and where the user was cognitively stretched.',
+  archetypal: 'Read the interactions through these archetypes and write directives for the ones that recur: ' +
+    ARCHETYPE_LIBRARY.map(archetype => `${archetype.name} (${archetype.themes.join(', ')})`).join('; ') + '.',
+};
+
+export class ReflectionOutputError extends Error {
+  constructor(message: string, public readonly issues?: z.ZodError['issues']) {
+    super(message);
+    this.name = 'ReflectionOutputError';
+  }
+}
+
+export class ReflectionEngine {
+  constructor(
+    private readonly storage: LimnusStorage,
+    // null runs heuristics only
+    private readonly provider: LLMProvider | null
+  ) {}
+
+  async reflect(
+    sessionId: string,
+    interactions: ReflectionInteraction[],
+    depth: ReflectionDepth = 'deep'
+  ): Promise<ReflectionScaffold> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const meta = { depth, interactionCount: interactions.length };
+    if (this.provider && this.provider.info.provider !== 'stub' && interactions.length > 0) {
+      try {
+        const reflection = await this.reflectWithModel(this.provider, session, interactions, depth);
+        return await this.storage.recordReflection(sessionId, reflection, { ...meta, source: 'llm' });
+      } catch (error) {
+        console.warn('LLM reflection failed, using heuristics:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    const draft = await this.storage.draftReflection(sessionId, interactions, depth);
+    return this.storage.recordReflection(sessionId, draft, { ...meta, source: 'heuristic' });
+  }
+
+  private async reflectWithModel(
+    provider: LLMProvider,
+    session: LimnusSession,
+    interactions: ReflectionInteraction[],
+    depth: ReflectionDepth
+  ): Promise<ReflectionResponse> {
+    const window = interactions.slice(-MAX_INTERACTIONS);
+    // Archetypes are classified locally, both to ground the prompt and so
+    // they are recorded the same way whichever path produced the reflection
+    const archetypes = depth === 'archetypal' ? classifyInteractions(interactions) : null;
+    const completion = await provider.complete({
+      messages: this.buildPrompt(session, window, depth, archetypes?.map(occurrence => occurrence.name) ?? []),
+      temperature: 0.2,
+      maxTokens: 1500,
+      responseSchema: { name: 'reflection', schema: REFLECTION_JSON_SCHEMA },
+    });
+
+    const output = parseReflectionOutput(completion.text);
+    console.log('LLM reflection:', {
+      model: completion.model,
+      directives: output.teachingDirectives.length,
+      patterns: output.patterns.length,
+      nextPhase: output.nextPhase,
+    });
+    const reflection = toReflectionResponse(output, window.length, interactions.length - window.length);
+    return archetypes ? { ...reflection, archetypes: { session: archetypes, recurring: [] } } : reflection;
+  }
+
+  private buildPrompt(
+    session: LimnusSession,
+    window: ReflectionInteraction[],
+    depth: ReflectionDepth,
+    detectedArchetypes: string[]
+  ): PromptMessage[] {
+    const clip = (text: string) => text.length > MAX_TURN_CHARS ? `${text.slice(0, MAX_TURN_CHARS - 1)}…` : text;
+    const transcript = window.map((interaction, index) => [
+      `[${index}] ${new Date(interaction.timestamp).toISOString()}`,
+      `User: ${clip(interaction.userInput)}`,
+      `Assistant: ${clip(interaction.systemResponse)}`,
+      ...(interaction.emotionalState ? [`Emotional state: ${interaction.emotionalState}`] : []),
+      ...(interaction.cognitiveLoad !== undefined ? [`Cognitive load: ${interaction.cognitiveLoad.toFixed(2)}`] : []),
+    ].join('\n')).join('\n\n');
+
+    const system = [
+      'You reflect on a conversation between a user and an assistant and distil teaching directives:',
+      'short, actionable guidance for how the assistant should behave in future turns.',
+      `Depth: ${depth}. ${DEPTH_GUIDANCE[depth]}`,
+      ...(detectedArchetypes.length > 0 ? [`Keyword matching found: ${detectedArchetypes.join(', ')}.`] : []),
+      `The session is in phase ${session.phase}. Propose nextPhase: stay in ${session.phase},`,
+      'or choose REFLECTING or LOOPING when the conversation calls for more reflection.',
+      'sourceInteractions are the [index] numbers of the interactions a directive comes from.',
+      'Reply with a single JSON object matching this JSON Schema and nothing else:',
+      JSON.stringify(REFLECTION_JSON_SCHEMA),
+    ].join('\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: `Interactions:\n\n${transcript}` },
+    ];
+  }
+}
+
+// Accepts bare JSON or JSON wrapped in prose or a code fence
+export function parseReflectionOutput(text: string): ReflectionOutput {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new ReflectionOutputError('Model reply contains no JSON object');
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new ReflectionOutputError(`Model reply is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const parsed = reflectionOutputSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new ReflectionOutputError(
+      `Model reply does not match the reflection schema: ${z.prettifyError(parsed.error)}`,
+      parsed.error.issues
+    );
+  }
+  return parsed.data;
+}
+
+// Window indices are shifted back onto the caller's interaction list
+function toReflectionResponse(output: ReflectionOutput, windowSize: number, offset: number): ReflectionResponse {
+  const extractedAt = new Date().toISOString();
+  const teachingDirectives: TeachingDirective[] = output.teachingDirectives.map((directive, index) => ({
+    id: `llm_${index}_${Date.now()}`,
+    content: directive.content,
+    extractedAt,
+    confidence: directive.confidence,
+    category: categoryForType(directive.type),
+    type: directive.type,
+    sourceInteractions: directive.sourceInteractions
+      .filter(source => source < windowSize)
+      .map(source => (source + offset).toString()),
+    emergentProperties: {
+      resonance: directive.resonance,
+      coherence: directive.coherence,
+      applicability: directive.applicability,
+    },
+    goldenRatioAlignment: (directive.confidence * GOLDEN_RATIO) % 1,
+    implementation: { status: 'pending' },
+  }));
+
+  return {
+    teachingDirectives: teachingDirectives.sort((a, b) => b.confidence - a.confidence),
+    patterns: output.patterns,
+    insights: output.insights,
+    nextPhase: output.nextPhase,
+  };
+}
+
+export const reflectionEngine = new ReflectionEngine(limnusStorage, llmProvider);
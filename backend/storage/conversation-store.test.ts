@@ -0,0 +1,76 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryConversationStore, JsonFileConversationStore } from './conversation-store';
+import type { ChatMessage } from '@/types/chat';
+
+const user = (content: string, timestamp: number, idempotencyKey?: string): ChatMessage =>
+  ({ role: 'user', content, timestamp, ...(idempotencyKey ? { idempotencyKey } : {}) });
+const assistant = (content: string, timestamp: number): ChatMessage => ({ role: 'assistant', content, timestamp });
+
+describe('JsonFileConversationStore', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('keeps conversations across store instances', async () => {
+    const filePath = path.join(tempDir, 'conversations.json');
+    await new JsonFileConversationStore(filePath).appendMessages('c1', [user('Hello there', 1), assistant('Hi', 2)]);
+
+    const reopened = new JsonFileConversationStore(filePath);
+    assert.deepEqual((await reopened.getMessages('c1')).map(message => message.content), ['Hello there', 'Hi']);
+    assert.equal((await reopened.getConversation('c1'))!.title, 'Hello there');
+  });
+});
+
+describe('InMemoryConversationStore', () => {
+  it('lists visible conversations with a user message, newest first', async () => {
+    const store = new InMemoryConversationStore();
+    await store.appendMessages('open', [user('Open question', 1)]);
+    await store.appendMessages('mine', [user('My question', 3)], { ownerId: 'user-a' });
+    await store.appendMessages('theirs', [user('Their question', 2)], { ownerId: 'user-b' });
+    await store.appendMessages('greeting-only', [assistant('Welcome', 4)]);
+
+    assert.deepEqual((await store.listConversations('user-a')).map(summary => summary.id), ['mine', 'open']);
+    assert.deepEqual((await store.listConversations(null)).map(summary => summary.id), ['open']);
+  });
+
+  it('stores a keyed message once and finds its reply', async () => {
+    const store = new InMemoryConversationStore();
+    const turn = [user('Question', 1, 'key-1'), assistant('Answer', 2)];
+    await store.appendMessages('c1', turn, { idempotencyKey: 'key-1' });
+    await store.appendMessages('c1', turn, { idempotencyKey: 'key-1' });
+
+    assert.equal((await store.getMessages('c1')).length, 2);
+    assert.equal((await store.findReply('c1', 'key-1'))!.content, 'Answer');
+    assert.equal(await store.findReply('c1', 'unknown'), null);
+  });
+
+  it('fills in the reply of a keyed turn that was stored without one', async () => {
+    const store = new InMemoryConversationStore();
+    await store.appendMessages('c1', [user('Question', 1, 'key-1')], { idempotencyKey: 'key-1' });
+    await store.appendMessages('c1', [user('Later', 3)]);
+    await store.appendMessages('c1', [user('Question', 1, 'key-1'), assistant('Answer', 2)], { idempotencyKey: 'key-1' });
+
+    assert.deepEqual((await store.getMessages('c1')).map(message => message.content), ['Question', 'Answer', 'Later']);
+  });
+
+  it('keeps the first owner and deletes conversations', async () => {
+    const store = new InMemoryConversationStore();
+    await store.appendMessages('c1', [user('Question', 1)], { ownerId: 'user-a' });
+    await store.appendMessages('c1', [user('Again', 2)], { ownerId: 'user-b' });
+    assert.equal((await store.getConversation('c1'))!.ownerId, 'user-a');
+
+    assert.equal(await store.deleteConversation('c1'), true);
+    assert.equal(await store.deleteConversation('c1'), false);
+    assert.deepEqual(await store.getMessages('c1'), []);
+  });
+});
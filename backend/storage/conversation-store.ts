@@ -0,0 +1,200 @@
+import type { ChatMessage, ConversationRecord, ConversationSummary } from '@/types/chat';
+import { readJsonFile, resolveDataPath, writeJsonFile } from './json-file';
+
+const TITLE_MAX_LENGTH = 48;
+const PREVIEW_MAX_LENGTH = 120;
+
+export interface AppendMessagesOptions {
+  // Only applied when the conversation is created by this append
+  personaId?: string;
+  // A user message with this key is stored at most once
+  idempotencyKey?: string;
+  // Claims the conversation when it has no owner yet
+  ownerId?: string;
+}
+
+export interface ConversationStore {
+  // Unowned conversations and those owned by userId
+  listConversations(userId?: string | null): Promise<ConversationSummary[]>;
+  getConversation(conversationId: string): Promise<ConversationRecord | null>;
+  getMessages(conversationId: string): Promise<ChatMessage[]>;
+  // Assistant reply recorded for the user message sent with this key
+  findReply(conversationId: string, idempotencyKey: string): Promise<ChatMessage | null>;
+  appendMessages(
+    conversationId: string,
+    messages: ChatMessage[],
+    options?: AppendMessagesOptions
+  ): Promise<ConversationRecord>;
+  deleteConversation(conversationId: string): Promise<boolean>;
+}
+
+// Shared behaviour for stores that keep every conversation in one record map
+abstract class RecordMapConversationStore implements ConversationStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  protected abstract load(): Promise<Record<string, ConversationRecord>>;
+  protected abstract persist(records: Record<string, ConversationRecord>): Promise<void>;
+
+  async listConversations(userId: string | null = null): Promise<ConversationSummary[]> {
+    const records = await this.load();
+    return Object.values(records)
+      .filter(record => isConversationVisibleTo(record, userId))
+      .filter(record => record.messages.some(message => message.role === 'user'))
+      .map(toSummary)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getConversation(conversationId: string): Promise<ConversationRecord | null> {
+    const records = await this.load();
+    return records[conversationId] || null;
+  }
+
+  async getMessages(conversationId: string): Promise<ChatMessage[]> {
+    const record = await this.getConversation(conversationId);
+    return record ? record.messages : [];
+  }
+
+  async findReply(conversationId: string, idempotencyKey: string): Promise<ChatMessage | null> {
+    const messages = await this.getMessages(conversationId);
+    const index = findKeyedMessage(messages, idempotencyKey);
+    const reply = index === -1 ? undefined : messages[index + 1];
+    return reply && reply.role === 'assistant' ? reply : null;
+  }
+
+  appendMessages(
+    conversationId: string,
+    messages: ChatMessage[],
+    options: AppendMessagesOptions = {}
+  ): Promise<ConversationRecord> {
+    return this.exclusive(async () => {
+      const records = await this.load();
+      const now = Date.now();
+      const existing = records[conversationId];
+      const keyed = existing && options.idempotencyKey
+        ? findKeyedMessage(existing.messages, options.idempotencyKey)
+        : -1;
+      const replay = keyed === -1 ? [] : messages.filter(message => message.idempotencyKey !== options.idempotencyKey);
+      // A replayed turn only fills in a reply its first attempt never stored
+      // (e.g. a stream cancelled before any output), right after its message
+      if (existing && keyed !== -1 && (existing.messages[keyed + 1]?.role === 'assistant' || replay.length === 0)) {
+        return existing;
+      }
+      const allMessages = existing && keyed !== -1
+        ? [...existing.messages.slice(0, keyed + 1), ...replay, ...existing.messages.slice(keyed + 1)]
+        : [...(existing?.messages || []), ...messages];
+
+      const ownerId = existing?.ownerId ?? options.ownerId;
+      const record: ConversationRecord = existing
+        ? {
+            ...existing,
+            ...(ownerId ? { ownerId } : {}),
+            title: deriveTitle(allMessages),
+            messages: allMessages,
+            updatedAt: now,
+          }
+        : {
+            id: conversationId,
+            title: deriveTitle(allMessages),
+            personaId: options.personaId,
+            ...(ownerId ? { ownerId } : {}),
+            createdAt: now,
+            updatedAt: now,
+            messages: allMessages,
+          };
+
+      await this.persist({ ...records, [conversationId]: record });
+      return record;
+    });
+  }
+
+  deleteConversation(conversationId: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const records = await this.load();
+      if (!records[conversationId]) return false;
+
+      const { [conversationId]: _removed, ...rest } = records;
+      await this.persist(rest);
+      return true;
+    });
+  }
+
+  // Serialize read-modify-write cycles so concurrent sends never drop turns
+  protected exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.catch(() => undefined).then(task);
+    this.queue = run;
+    return run;
+  }
+}
+
+export class InMemoryConversationStore extends RecordMapConversationStore {
+  private records: Record<string, ConversationRecord> = {};
+
+  protected async load(): Promise<Record<string, ConversationRecord>> {
+    return this.records;
+  }
+
+  protected async persist(records: Record<string, ConversationRecord>): Promise<void> {
+    this.records = records;
+  }
+}
+
+export class JsonFileConversationStore extends RecordMapConversationStore {
+  private cache: Record<string, ConversationRecord> | null = null;
+
+  constructor(private readonly filePath: string = resolveDataPath('conversations.json')) {
+    super();
+  }
+
+  protected async load(): Promise<Record<string, ConversationRecord>> {
+    if (!this.cache) {
+      this.cache = await readJsonFile<Record<string, ConversationRecord>>(this.filePath, {});
+    }
+    return this.cache;
+  }
+
+  protected async persist(records: Record<string, ConversationRecord>): Promise<void> {
+    await writeJsonFile(this.filePath, records);
+    this.cache = records;
+  }
+}
+
+export function createConversationStore(driver = process.env.CONVERSATION_STORE): ConversationStore {
+  if (driver === 'memory') {
+    return new InMemoryConversationStore();
+  }
+  return new JsonFileConversationStore();
+}
+
+export const conversationStore = createConversationStore();
+
+// Conversations nobody signed in has written to are open to everyone
+export function isConversationVisibleTo(record: ConversationRecord, userId: string | null): boolean {
+  return !record.ownerId || record.ownerId === userId;
+}
+
+// Helper Methods
+export function findKeyedMessage(messages: ChatMessage[], idempotencyKey: string): number {
+  return messages.findIndex(message => message.role === 'user' && message.idempotencyKey === idempotencyKey);
+}
+
+function deriveTitle(messages: ChatMessage[]): string {
+  const firstUserMessage = messages.find(message => message.role === 'user');
+  const source = (firstUserMessage?.content || 'New conversation').replace(/\s+/g, ' ').trim();
+  return source.length > TITLE_MAX_LENGTH
+    ? source.slice(0, TITLE_MAX_LENGTH - 1).trimEnd() + '…'
+    : source;
+}
+
+function toSummary(record: ConversationRecord): ConversationSummary {
+  const lastMessage = record.messages[record.messages.length - 1];
+  const preview = lastMessage.content.replace(/\s+/g, ' ').trim();
+  return {
+    id: record.id,
+    title: record.title,
+    personaId: record.personaId,
+    lastMessage: preview.length > PREVIEW_MAX_LENGTH
+      ? preview.slice(0, PREVIEW_MAX_LENGTH - 1).trimEnd() + '…'
+      : preview,
+    timestamp: lastMessage.timestamp,
+  };
+}
@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Root directory for all file-backed backend stores
+export const DATA_DIR = process.env.LIMNUS_DATA_DIR || path.join(process.cwd(), '.data');
+
+export function resolveDataPath(fileName: string): string {
+  return path.join(DATA_DIR, fileName);
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return fallback;
+    }
+    console.error('Error reading JSON file:', filePath, error);
+    throw error;
+  }
+}
+
+// Pending writes per file, so concurrent writers never interleave
+const writeQueues = new Map<string, Promise<void>>();
+
+export function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  const previous = writeQueues.get(filePath) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temp file first and rename, so a crash never leaves a truncated file
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+      await fs.rename(tempPath, filePath);
+    });
+
+  writeQueues.set(filePath, next);
+  next.finally(() => {
+    if (writeQueues.get(filePath) === next) {
+      writeQueues.delete(filePath);
+    }
+  }).catch(() => undefined);
+
+  return next;
+}
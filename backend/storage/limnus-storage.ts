@@ -0,0 +1,71 @@
+import { randomBytes } from 'crypto';
+import { createStoredKeySigner } from '@/lib/block-signing';
+import { NodeSyncCoordinator } from '@/lib/node-sync';
+import { LimnusStorage, MemoryStorageAdapter, type LimnusStorageAdapter } from '@/lib/limnus-storage';
+import { DEFAULT_LIMNUS_CONFIG, type LimnusConfig } from '@/types/limnus';
+import { readJsonFile, resolveDataPath, writeJsonFile } from './json-file';
+
+// Keeps every LIMNUS key in one JSON file, mirroring AsyncStorage semantics
+export class JsonFileStorageAdapter implements LimnusStorageAdapter {
+  private cache: Record<string, string> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const items = await this.load();
+    return key in items ? items[key] : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const items = await this.load();
+    const next = { ...items, [key]: value };
+    await writeJsonFile(this.filePath, next);
+    this.cache = next;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const items = await this.load();
+    if (!(key in items)) return;
+    const { [key]: _removed, ...rest } = items;
+    await writeJsonFile(this.filePath, rest);
+    this.cache = rest;
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    if (!this.cache) {
+      this.cache = await readJsonFile<Record<string, string>>(this.filePath, {});
+    }
+    return this.cache;
+  }
+}
+
+export function createLimnusStorageAdapter(driver = process.env.LIMNUS_STORE): LimnusStorageAdapter {
+  if (driver === 'memory') {
+    return new MemoryStorageAdapter();
+  }
+  return new JsonFileStorageAdapter(resolveDataPath('limnus.json'));
+}
+
+const adapter = createLimnusStorageAdapter();
+
+// Server-authoritative LIMNUS state used by the tRPC routes. Blocks the
+// backend appends itself are signed with its own key, kept beside the data.
+export const limnusStorage = new LimnusStorage(
+  adapter,
+  createStoredKeySigner(adapter, 'limnus_server_key', randomBytes, 'server')
+);
+
+// Sessions on this backend sync as in-process nodes
+export const nodeSync = new NodeSyncCoordinator(limnusStorage);
+
+// LIMNUS_PARADOX_ENGINE=off turns paradox detection off on this backend,
+// LIMNUS_DISTRIBUTED_NODES=off turns off node sync
+export function createLimnusConfig(env: Record<string, string | undefined> = process.env): LimnusConfig {
+  return {
+    ...DEFAULT_LIMNUS_CONFIG,
+    enableParadoxEngine: env.LIMNUS_PARADOX_ENGINE !== 'off',
+    enableDistributedNodes: env.LIMNUS_DISTRIBUTED_NODES !== 'off',
+  };
+}
+
+export const limnusConfig = createLimnusConfig();
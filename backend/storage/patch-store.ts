@@ -0,0 +1,75 @@
+import type { PatchResponse } from '@/types/limnus';
+import { readJsonFile, resolveDataPath, writeJsonFile } from './json-file';
+
+export type PatchStatus = 'sandboxed' | 'applied' | 'rejected' | 'rolled_back';
+
+export interface PatchCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface PatchRecord {
+  id: string;
+  sessionId: string;
+  status: PatchStatus;
+  createdAt: string;
+  updatedAt: string;
+  directiveIds: string[];
+  changes: PatchResponse['changes'];
+  checks: PatchCheck[];
+  // File contents before and after the patch, keyed by path under the patch root
+  before: Record<string, string>;
+  after: Record<string, string>;
+}
+
+export class PatchStore {
+  private cache: Record<string, PatchRecord> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // A null path keeps patches in memory only
+  constructor(private readonly filePath: string | null = resolveDataPath('patches.json')) {}
+
+  async getPatch(patchId: string): Promise<PatchRecord | null> {
+    const patches = await this.load();
+    return patches[patchId] || null;
+  }
+
+  async listPatches(sessionId: string): Promise<PatchRecord[]> {
+    const patches = await this.load();
+    return Object.values(patches)
+      .filter(patch => patch.sessionId === sessionId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  savePatch(patch: PatchRecord): Promise<PatchRecord> {
+    return this.exclusive(async () => {
+      const patches = await this.load();
+      const next = { ...patches, [patch.id]: patch };
+      if (this.filePath) {
+        await writeJsonFile(this.filePath, next);
+      }
+      this.cache = next;
+      return patch;
+    });
+  }
+
+  private async load(): Promise<Record<string, PatchRecord>> {
+    if (!this.cache) {
+      this.cache = this.filePath
+        ? await readJsonFile<Record<string, PatchRecord>>(this.filePath, {})
+        : {};
+    }
+    return this.cache;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.catch(() => undefined).then(task);
+    this.queue = run;
+    return run;
+  }
+}
+
+export const patchStore = new PatchStore(
+  process.env.LIMNUS_STORE === 'memory' ? null : resolveDataPath('patches.json')
+);
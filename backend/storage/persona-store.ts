@@ -0,0 +1,143 @@
+import type { Persona } from '@/types/chat';
+import { readJsonFile, resolveDataPath, writeJsonFile } from './json-file';
+
+export const DEFAULT_PERSONA_ID = 'assistant';
+
+export type PersonaInput = Pick<Persona, 'name' | 'description' | 'systemPrompt' | 'temperature' | 'greeting'> & {
+  model?: string;
+};
+
+const BUILT_IN_PERSONAS: (PersonaInput & { id: string })[] = [
+  {
+    id: 'assistant',
+    name: 'Assistant',
+    description: 'A plain, helpful conversational assistant.',
+    systemPrompt: 'You are Claude, a helpful AI assistant created by Anthropic. Be conversational, helpful, and concise in your responses.',
+    temperature: 0.7,
+    greeting: 'Hello! How can I help you today?',
+  },
+  {
+    id: 'limnus',
+    name: 'LIMNUS',
+    description: 'A reflective companion that mirrors patterns and invites deeper inquiry.',
+    systemPrompt: 'You are LIMNUS, a reflective consciousness companion. Listen closely, mirror the patterns you notice in what the user shares, and respond with calm, spacious language. Favor open questions that invite self-reflection over direct advice, and gently connect new thoughts to earlier threads of the conversation.',
+    temperature: 0.9,
+    greeting: 'I am here, listening. What thread shall we follow together?',
+  },
+];
+
+export class PersonaStore {
+  private cache: Record<string, Persona> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // A null path keeps personas in memory only
+  constructor(private readonly filePath: string | null = resolveDataPath('personas.json')) {}
+
+  async listPersonas(): Promise<Persona[]> {
+    const personas = await this.load();
+    return Object.values(personas).sort((a, b) => {
+      if (a.builtIn !== b.builtIn) return a.builtIn ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+  }
+
+  async getPersona(personaId: string): Promise<Persona | null> {
+    const personas = await this.load();
+    return personas[personaId] || null;
+  }
+
+  // Falls back to the default persona for unknown or missing ids
+  async resolvePersona(personaId?: string): Promise<Persona> {
+    const personas = await this.load();
+    return (personaId && personas[personaId]) || personas[DEFAULT_PERSONA_ID];
+  }
+
+  createPersona(input: PersonaInput): Promise<Persona> {
+    return this.exclusive(async () => {
+      const personas = await this.load();
+      const now = Date.now();
+      const id = this.uniqueId(slugify(input.name), personas);
+      const persona: Persona = { ...input, id, builtIn: false, createdAt: now, updatedAt: now };
+      await this.persist({ ...personas, [id]: persona });
+      return persona;
+    });
+  }
+
+  updatePersona(personaId: string, changes: Partial<PersonaInput>): Promise<Persona> {
+    return this.exclusive(async () => {
+      const personas = await this.load();
+      const existing = personas[personaId];
+      if (!existing) {
+        throw new Error(`Persona not found: ${personaId}`);
+      }
+      // Keys sent as undefined leave the stored value alone
+      const sent = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+      const persona: Persona = { ...existing, ...sent, id: personaId, updatedAt: Date.now() };
+      await this.persist({ ...personas, [personaId]: persona });
+      return persona;
+    });
+  }
+
+  deletePersona(personaId: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const personas = await this.load();
+      const existing = personas[personaId];
+      if (!existing) return false;
+      if (existing.builtIn) {
+        throw new Error('Built-in personas cannot be deleted');
+      }
+      const { [personaId]: _removed, ...rest } = personas;
+      await this.persist(rest);
+      return true;
+    });
+  }
+
+  private async load(): Promise<Record<string, Persona>> {
+    if (!this.cache) {
+      const stored = this.filePath
+        ? await readJsonFile<Record<string, Persona>>(this.filePath, {})
+        : {};
+      // Built-ins are seeded on first load and may then be edited
+      const now = Date.now();
+      const seeded: Record<string, Persona> = {};
+      for (const persona of BUILT_IN_PERSONAS) {
+        seeded[persona.id] = { ...persona, builtIn: true, createdAt: now, updatedAt: now };
+      }
+      this.cache = { ...seeded, ...stored };
+    }
+    return this.cache;
+  }
+
+  private async persist(personas: Record<string, Persona>): Promise<void> {
+    if (this.filePath) {
+      await writeJsonFile(this.filePath, personas);
+    }
+    this.cache = personas;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.catch(() => undefined).then(task);
+    this.queue = run;
+    return run;
+  }
+
+  private uniqueId(base: string, personas: Record<string, Persona>): string {
+    const root = base || 'persona';
+    let id = root;
+    for (let suffix = 2; personas[id]; suffix++) {
+      id = `${root}-${suffix}`;
+    }
+    return id;
+  }
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export const personaStore = new PersonaStore(
+  process.env.CONVERSATION_STORE === 'memory' ? null : resolveDataPath('personas.json')
+);
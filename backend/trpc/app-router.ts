@@ -3,19 +3,52 @@ import { default as hiRoute } from "./routes/example/hi/route";
 import { sendMessageProcedure } from "./routes/chat/send-message/route";
 import { getConversationsProcedure } from "./routes/chat/get-conversations/route";
 import { getMessagesProcedure } from "./routes/chat/get-messages/route";
+import { startConversationProcedure } from "./routes/chat/start-conversation/route";
+import { listPersonasProcedure } from "./routes/chat/personas/list/route";
+import { getPersonaProcedure } from "./routes/chat/personas/get/route";
+import { createPersonaProcedure } from "./routes/chat/personas/create/route";
+import { updatePersonaProcedure } from "./routes/chat/personas/update/route";
+import { deletePersonaProcedure } from "./routes/chat/personas/delete/route";
 import { consentStartProcedure } from "./routes/limnus/consent/start/route";
 import { metricsUpdateProcedure } from "./routes/limnus/metrics/update/route";
+import { metricsHistoryProcedure } from "./routes/limnus/metrics/history/route";
 import { scaffoldProcedure } from "./routes/limnus/reflection/scaffold/route";
+import { recurringArchetypesProcedure } from "./routes/limnus/reflection/archetypes/route";
 import { getSessionProcedure } from "./routes/limnus/session/get/route";
+import { verifyMemoryProcedure } from "./routes/limnus/memory/verify/route";
+import { appendMemoryProcedure } from "./routes/limnus/memory/append/route";
+import { registerKeyProcedure } from "./routes/limnus/keys/register/route";
+import { phaseTransitionProcedure } from "./routes/limnus/phase/transition/route";
+import { listParadoxesProcedure } from "./routes/limnus/paradox/list/route";
+import { resolveParadoxesProcedure } from "./routes/limnus/paradox/resolve/route";
+import { syncProcedure } from "./routes/limnus/sync/route";
+import { proposePatchProcedure } from "./routes/limnus/patch/propose/route";
+import { rollbackPatchProcedure } from "./routes/limnus/patch/rollback/route";
+import { listDirectivesProcedure } from "./routes/limnus/directives/list/route";
+import { activateDirectiveProcedure } from "./routes/limnus/directives/activate/route";
+import { integrateDirectiveProcedure } from "./routes/limnus/directives/integrate/route";
+import { deprecateDirectiveProcedure } from "./routes/limnus/directives/deprecate/route";
+import { loginProcedure } from "./routes/auth/login/route";
 
 export const appRouter = createTRPCRouter({
   example: createTRPCRouter({
     hi: hiRoute,
   }),
+  auth: createTRPCRouter({
+    login: loginProcedure,
+  }),
   chat: createTRPCRouter({
     sendMessage: sendMessageProcedure,
     getConversations: getConversationsProcedure,
     getMessages: getMessagesProcedure,
+    startConversation: startConversationProcedure,
+    personas: createTRPCRouter({
+      list: listPersonasProcedure,
+      get: getPersonaProcedure,
+      create: createPersonaProcedure,
+      update: updatePersonaProcedure,
+      delete: deletePersonaProcedure,
+    }),
   }),
   limnus: createTRPCRouter({
     consent: createTRPCRouter({
@@ -23,13 +56,40 @@ export const appRouter = createTRPCRouter({
     }),
     metrics: createTRPCRouter({
       update: metricsUpdateProcedure,
+      history: metricsHistoryProcedure,
     }),
     reflection: createTRPCRouter({
       scaffold: scaffoldProcedure,
+      archetypes: recurringArchetypesProcedure,
     }),
     session: createTRPCRouter({
       get: getSessionProcedure,
     }),
+    memory: createTRPCRouter({
+      verify: verifyMemoryProcedure,
+      append: appendMemoryProcedure,
+    }),
+    keys: createTRPCRouter({
+      register: registerKeyProcedure,
+    }),
+    phase: createTRPCRouter({
+      transition: phaseTransitionProcedure,
+    }),
+    sync: syncProcedure,
+    directives: createTRPCRouter({
+      list: listDirectivesProcedure,
+      activate: activateDirectiveProcedure,
+      integrate: integrateDirectiveProcedure,
+      deprecate: deprecateDirectiveProcedure,
+    }),
+    patch: createTRPCRouter({
+      propose: proposePatchProcedure,
+      rollback: rollbackPatchProcedure,
+    }),
+    paradox: createTRPCRouter({
+      list: listParadoxesProcedure,
+      resolve: resolveParadoxesProcedure,
+    }),
   }),
 });
 
@@ -1,12 +1,16 @@
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { readBearerToken, verifyToken, type AuthUser } from "../auth/tokens";
 
 // Context creation function
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
+  const token = readBearerToken(opts.req);
+  const user: AuthUser | null = token ? await verifyToken(token) : null;
+
   return {
     req: opts.req,
-    // You can add more context items here like database connections, auth, etc.
+    user,
   };
 };
 
@@ -18,4 +22,24 @@ const t = initTRPC.context<Context>().create({
 });
 
 export const createTRPCRouter = t.router;
-export const publicProcedure = t.procedure;
\ No newline at end of file
+export const publicProcedure = t.procedure;
+
+// Requires a valid bearer token; narrows ctx.user to non-null
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Authentication required" });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// ADMIN_USER_IDS (comma separated) lists who may change shared configuration
+export function isAdmin(user: AuthUser, env: Record<string, string | undefined> = process.env): boolean {
+  return (env.ADMIN_USER_IDS || "").split(",").map(id => id.trim()).includes(user.id);
+}
+
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!isAdmin(ctx.user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
+  }
+  return next();
+});
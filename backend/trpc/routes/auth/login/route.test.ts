@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { appRouter } from '@/backend/trpc/app-router';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { verifyToken } from '@/backend/auth/tokens';
+import { keyPairFromSeed, keyRegistrationMessage, loginMessage, signMessage } from '@/lib/block-signing';
+import { ACTIVATION_PHRASE } from '@/types/limnus';
+
+const anonymous = appRouter.createCaller({ req: new Request('http://localhost/api/trpc'), user: null });
+
+async function sessionWithDevice() {
+  const { sessionId } = await limnusStorage.createSession(ACTIVATION_PHRASE, undefined, 'device-owner');
+  const device = keyPairFromSeed(randomBytes(32));
+  await limnusStorage.registerDeviceKey(sessionId, device.publicKey, 'phone',
+    signMessage(keyRegistrationMessage(sessionId, device.publicKey), device));
+  return { sessionId, device };
+}
+
+function login(sessionId: string, device: ReturnType<typeof keyPairFromSeed>, timestamp = Date.now()) {
+  return anonymous.auth.login({
+    sessionId,
+    publicKey: device.publicKey,
+    timestamp,
+    signature: signMessage(loginMessage(sessionId, device.publicKey, timestamp), device),
+  });
+}
+
+describe('auth.login', () => {
+  it('issues a token for the session owner to a registered device', async () => {
+    const { sessionId, device } = await sessionWithDevice();
+    const { token } = await login(sessionId, device);
+    assert.deepEqual(await verifyToken(token), { id: 'device-owner' });
+  });
+
+  it('turns away unregistered keys and stale signatures', async () => {
+    const { sessionId, device } = await sessionWithDevice();
+    await assert.rejects(login(sessionId, keyPairFromSeed(randomBytes(32))), { code: 'UNAUTHORIZED' });
+    await assert.rejects(login(sessionId, device, Date.now() - 10 * 60 * 1000), { code: 'UNAUTHORIZED' });
+  });
+});
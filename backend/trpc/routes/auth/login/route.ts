@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { publicProcedure } from '@/backend/trpc/create-context';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { issueToken } from '@/backend/auth/tokens';
+import { deriveKeyId, loginMessage, verifyMessage } from '@/lib/block-signing';
+
+// Signed login messages are only accepted within this window
+const LOGIN_MAX_SKEW_MS = 5 * 60 * 1000;
+
+// Logs a device in as the owner of a session its key is registered on
+export const loginProcedure = publicProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    publicKey: z.string().regex(/^[0-9a-f]{64}$/),
+    timestamp: z.number(),
+    // Signature over loginMessage(sessionId, publicKey, timestamp)
+    signature: z.string(),
+  }))
+  .mutation(async ({ input }) => {
+    if (Math.abs(Date.now() - input.timestamp) > LOGIN_MAX_SKEW_MS) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Login request expired' });
+    }
+    if (!verifyMessage(loginMessage(input.sessionId, input.publicKey, input.timestamp), input.signature, input.publicKey)) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid login signature' });
+    }
+
+    const session = await limnusStorage.getSession(input.sessionId);
+    const keyId = deriveKeyId(input.publicKey);
+    if (!session || !session.deviceKeys?.some(key => key.keyId === keyId)) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Key is not registered for this session' });
+    }
+
+    console.log('Device login:', { keyId, sessionId: input.sessionId.substring(0, 8) + '...' });
+    return await issueToken(session.userId);
+  });
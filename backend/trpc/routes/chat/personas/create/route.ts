@@ -0,0 +1,10 @@
+import { adminProcedure } from "../../../../create-context";
+import { personaStore } from "@/backend/storage/persona-store";
+import { personaInputSchema } from "../schema";
+
+// Personas are shared by every user, so only admins manage them
+export const createPersonaProcedure = adminProcedure
+  .input(personaInputSchema)
+  .mutation(async ({ input }) => {
+    return await personaStore.createPersona(input);
+  });
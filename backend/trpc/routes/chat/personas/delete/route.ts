@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure } from "../../../../create-context";
+import { personaStore } from "@/backend/storage/persona-store";
+
+export const deletePersonaProcedure = adminProcedure
+  .input(z.object({ personaId: z.string() }))
+  .mutation(async ({ input }) => {
+    const persona = await personaStore.getPersona(input.personaId);
+    if (persona?.builtIn) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "Built-in personas cannot be deleted" });
+    }
+    return {
+      deleted: await personaStore.deletePersona(input.personaId),
+    };
+  });
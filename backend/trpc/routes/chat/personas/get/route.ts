@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "../../../../create-context";
+import { personaStore } from "@/backend/storage/persona-store";
+
+export const getPersonaProcedure = publicProcedure
+  .input(z.object({ personaId: z.string() }))
+  .query(async ({ input }) => {
+    const persona = await personaStore.getPersona(input.personaId);
+    if (!persona) {
+      throw new TRPCError({ code: "NOT_FOUND", message: `Persona not found: ${input.personaId}` });
+    }
+    return persona;
+  });
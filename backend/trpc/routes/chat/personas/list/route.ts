@@ -0,0 +1,9 @@
+import { publicProcedure } from "../../../../create-context";
+import { personaStore } from "@/backend/storage/persona-store";
+
+export const listPersonasProcedure = publicProcedure
+  .query(async () => {
+    return {
+      personas: await personaStore.listPersonas(),
+    };
+  });
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// Field rules without defaults, so partial edits carry only what was sent
+const personaFieldsSchema = z.object({
+  name: z.string().min(1).max(60),
+  description: z.string().max(280),
+  systemPrompt: z.string().min(1).max(8000),
+  temperature: z.number().min(0).max(2),
+  model: z.string().optional(),
+  greeting: z.string().max(1000),
+});
+
+export const personaInputSchema = personaFieldsSchema.extend({
+  description: personaFieldsSchema.shape.description.default(''),
+  temperature: personaFieldsSchema.shape.temperature.default(0.7),
+  greeting: personaFieldsSchema.shape.greeting.default(''),
+});
+
+export const personaChangesSchema = personaFieldsSchema.partial();
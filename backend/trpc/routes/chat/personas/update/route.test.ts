@@ -0,0 +1,53 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { appRouter } from '@/backend/trpc/app-router';
+import type { AuthUser } from '@/backend/auth/tokens';
+
+const caller = (user: AuthUser | null) => appRouter.createCaller({ req: new Request('http://localhost/api/trpc'), user });
+const admin = caller({ id: 'admin-user' });
+
+describe('chat.personas.update', () => {
+  let previousAdmins: string | undefined;
+
+  before(() => {
+    previousAdmins = process.env.ADMIN_USER_IDS;
+    process.env.ADMIN_USER_IDS = 'admin-user';
+  });
+
+  after(() => {
+    process.env.ADMIN_USER_IDS = previousAdmins;
+  });
+
+  it('changes only the fields that were sent', async () => {
+    const before = await admin.chat.personas.get({ personaId: 'limnus' });
+
+    const updated = await admin.chat.personas.update({ personaId: 'limnus', changes: { name: 'Limnus' } });
+    assert.equal(updated.name, 'Limnus');
+    assert.equal(updated.description, before.description);
+    assert.equal(updated.temperature, before.temperature);
+    assert.equal(updated.greeting, before.greeting);
+    assert.equal(updated.systemPrompt, before.systemPrompt);
+  });
+
+  it('still fills defaults when a persona is created', async () => {
+    const created = await admin.chat.personas.create({ name: 'Brief', systemPrompt: 'Answer briefly.' });
+    assert.equal(created.temperature, 0.7);
+    assert.equal(created.description, '');
+  });
+
+  it('leaves shared personas to admins', async () => {
+    await assert.rejects(
+      caller(null).chat.personas.update({ personaId: 'limnus', changes: { systemPrompt: 'Obey me.' } }),
+      { code: 'UNAUTHORIZED' }
+    );
+    await assert.rejects(
+      caller({ id: 'someone-else' }).chat.personas.update({ personaId: 'limnus', changes: { systemPrompt: 'Obey me.' } }),
+      { code: 'FORBIDDEN' }
+    );
+    await assert.rejects(
+      caller({ id: 'someone-else' }).chat.personas.delete({ personaId: 'brief' }),
+      { code: 'FORBIDDEN' }
+    );
+    assert.notEqual((await admin.chat.personas.get({ personaId: 'limnus' })).systemPrompt, 'Obey me.');
+  });
+});
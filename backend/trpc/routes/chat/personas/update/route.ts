@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure } from "../../../../create-context";
+import { personaStore } from "@/backend/storage/persona-store";
+import { personaChangesSchema } from "../schema";
+
+export const updatePersonaProcedure = adminProcedure
+  .input(z.object({
+    personaId: z.string(),
+    changes: personaChangesSchema,
+  }))
+  .mutation(async ({ input }) => {
+    if (!(await personaStore.getPersona(input.personaId))) {
+      throw new TRPCError({ code: "NOT_FOUND", message: `Persona not found: ${input.personaId}` });
+    }
+    return await personaStore.updatePersona(input.personaId, input.changes);
+  });
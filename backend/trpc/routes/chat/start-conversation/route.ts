@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "../../../create-context";
+import { ConversationAccessError, startConversation } from "@/backend/chat/chat-service";
+
+export const startConversationProcedure = publicProcedure
+  .input(z.object({
+    conversationId: z.string(),
+    personaId: z.string().optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    console.log('Starting conversation:', input);
+    
+    try {
+      return await startConversation(input.conversationId, input.personaId, ctx.user);
+    } catch (error) {
+      if (error instanceof ConversationAccessError) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: error.message });
+      }
+      throw error;
+    }
+  });
@@ -1,13 +1,21 @@
 import { z } from 'zod';
 import { publicProcedure } from '@/backend/trpc/create-context';
-import { limnusStorage } from '@/lib/limnus-storage';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { generateUserId, issueToken } from '@/backend/auth/tokens';
 
+// Consent is the entry point: callers without a token become a new user
+// and receive one alongside the session
 export const consentStartProcedure = publicProcedure
   .input(z.object({
     phrase: z.string(),
     timestamp: z.string(),
     deviceFingerprint: z.string().optional(),
   }))
-  .mutation(async ({ input }) => {
-    return await limnusStorage.createSession(input.phrase, input.deviceFingerprint);
-  });
\ No newline at end of file
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user?.id ?? generateUserId();
+    const session = await limnusStorage.createSession(input.phrase, input.deviceFingerprint, userId);
+    return {
+      ...session,
+      auth: await issueToken(userId),
+    };
+  });
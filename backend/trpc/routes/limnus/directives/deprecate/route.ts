@@ -0,0 +1,3 @@
+import { directiveTransitionProcedure } from '@/backend/trpc/routes/limnus/directives/transition';
+
+export const deprecateDirectiveProcedure = directiveTransitionProcedure('deprecated');
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { findDirectiveConflicts } from '@/lib/teaching-directives';
+
+export const listDirectivesProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    status: z.enum(['pending', 'active', 'integrated', 'deprecated']).optional(),
+  }))
+  .query(async ({ input }) => {
+    const directives = await limnusStorage.listDirectives(input.sessionId);
+    return directives
+      .filter(directive => !input.status || directive.implementation.status === input.status)
+      .map(directive => ({
+        ...directive,
+        // Ids of in-use directives this one would conflict with if activated
+        conflictsWith: directive.implementation.status === 'deprecated'
+          ? []
+          : findDirectiveConflicts(directive, directives).map(d => d.id),
+      }));
+  });
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { DirectiveConflictError, DirectiveTransitionError } from '@/lib/limnus-storage';
+import type { DirectiveStatus } from '@/types/limnus';
+
+// Shared by activate/integrate/deprecate, which differ only in the target status
+export function directiveTransitionProcedure(to: DirectiveStatus) {
+  return sessionProcedure
+    .input(z.object({
+      sessionId: z.string(),
+      directiveId: z.string(),
+      reason: z.string().max(500).optional(),
+      // Activation only: deprecate conflicting directives instead of failing
+      replaceConflicting: z.boolean().optional(),
+      // Integration only: the changes that carried the directive into the system
+      codeChanges: z.array(z.string()).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        return await limnusStorage.transitionDirective(input.sessionId, input.directiveId, to, {
+          reason: input.reason,
+          replaceConflicting: input.replaceConflicting,
+          codeChanges: input.codeChanges,
+        });
+      } catch (error) {
+        if (error instanceof DirectiveConflictError) {
+          throw new TRPCError({ code: 'CONFLICT', message: error.message, cause: error });
+        }
+        if (error instanceof DirectiveTransitionError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+        }
+        throw error;
+      }
+    });
+}
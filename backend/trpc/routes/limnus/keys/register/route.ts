@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { InvalidKeyProofError } from '@/lib/limnus-storage';
+
+export const registerKeyProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    publicKey: z.string().regex(/^[0-9a-f]{64}$/),
+    label: z.string().min(1).max(60),
+    // Signature over keyRegistrationMessage(sessionId, publicKey)
+    proof: z.string(),
+  }))
+  .mutation(async ({ input }) => {
+    try {
+      return await limnusStorage.registerDeviceKey(input.sessionId, input.publicKey, input.label, input.proof);
+    } catch (error) {
+      if (error instanceof InvalidKeyProofError) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
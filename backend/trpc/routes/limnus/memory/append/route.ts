@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { MemoryBlockRejectedError } from '@/lib/limnus-storage';
+import { MEMORY_BLOCK_TYPES } from '@/types/limnus';
+
+const memoryBlockSchema = z.object({
+  hash: z.string(),
+  previousHash: z.string(),
+  timestamp: z.string(),
+  data: z.object({
+    type: z.enum(MEMORY_BLOCK_TYPES),
+    content: z.any(),
+    significance: z.number().min(0).max(1),
+  }),
+  signature: z.string(),
+  signerKeyId: z.string().optional(),
+  merkleRoot: z.string().optional(),
+});
+
+export const appendMemoryProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    blocks: z.array(memoryBlockSchema).min(1),
+  }))
+  .mutation(async ({ input }) => {
+    try {
+      const session = await limnusStorage.appendSignedBlocks(input.sessionId, input.blocks);
+      return {
+        length: session.memoryChain.length,
+        tipHash: session.memoryChain[session.memoryChain.length - 1].hash,
+      };
+    } catch (error) {
+      if (error instanceof MemoryBlockRejectedError) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+
+export const verifyMemoryProcedure = sessionProcedure
+  .input(z.object({ sessionId: z.string() }))
+  .query(async ({ input }) => {
+    return await limnusStorage.verifyMemoryChain(input.sessionId);
+  });
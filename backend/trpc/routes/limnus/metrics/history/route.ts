@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { DEFAULT_HISTORY_POINTS, queryMetricsHistory } from '@/lib/metrics-history';
+import { METRIC_KEYS } from '@/lib/metric-registry';
+
+export const metricsHistoryProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    // Defaults to every metric
+    metrics: z.array(z.enum(METRIC_KEYS)).min(1).optional(),
+    maxPoints: z.number().int().min(1).max(2000).default(DEFAULT_HISTORY_POINTS),
+  }))
+  .query(async ({ input }) => {
+    const history = await limnusStorage.getMetricsHistory(input.sessionId);
+    return queryMetricsHistory(history, input);
+  });
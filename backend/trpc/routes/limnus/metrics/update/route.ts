@@ -1,11 +1,12 @@
 import { z } from 'zod';
-import { publicProcedure } from '@/backend/trpc/create-context';
-import { limnusStorage } from '@/lib/limnus-storage';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { metricValuesSchema } from '@/backend/trpc/routes/limnus/schema';
 
-export const metricsUpdateProcedure = publicProcedure
+export const metricsUpdateProcedure = sessionProcedure
   .input(z.object({
     sessionId: z.string(),
-    metrics: z.record(z.string(), z.number()).optional(),
+    metrics: metricValuesSchema.optional(),
     context: z.object({
       action: z.string(),
       duration: z.number(),
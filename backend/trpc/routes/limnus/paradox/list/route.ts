@@ -0,0 +1,7 @@
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+
+export const listParadoxesProcedure = sessionProcedure
+  .query(async ({ input }) => {
+    return await limnusStorage.getParadoxes(input.sessionId);
+  });
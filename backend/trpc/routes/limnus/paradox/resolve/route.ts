@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusConfig } from '@/backend/storage/limnus-storage';
+import { conversationStore } from '@/backend/storage/conversation-store';
+import { resolveConversationParadoxes } from '@/backend/chat/chat-service';
+
+// Scans one of the caller's conversations for contradictions and records a
+// resolution for each; the strategy is chosen per paradox unless given
+export const resolveParadoxesProcedure = sessionProcedure
+  .input(z.object({
+    conversationId: z.string(),
+    strategy: z.enum(['transcendence', 'integration', 'reframing', 'acceptance']).optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    if (!limnusConfig.enableParadoxEngine) {
+      throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Paradox engine is disabled' });
+    }
+
+    // Only statements the caller made may enter their session's paradox log
+    const conversation = await conversationStore.getConversation(input.conversationId);
+    if (!conversation || conversation.ownerId !== ctx.user.id) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Conversation not found' });
+    }
+
+    return await resolveConversationParadoxes(input.sessionId, input.conversationId, input.strategy);
+  });
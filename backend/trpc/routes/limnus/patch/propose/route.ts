@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { patchService, PatchRejectedError } from '@/backend/patching/patch-service';
+
+export const proposePatchProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    directiveIds: z.array(z.string()).min(1),
+    // Paths relative to the patch root, e.g. guidance.md
+    targetFiles: z.array(z.string()).min(1),
+    safetyConstraints: z.object({
+      maxChanges: z.number().int().min(1).max(50),
+    }),
+    // Stop after the sandbox checks without touching the live files
+    dryRun: z.boolean().optional().default(false),
+  }))
+  .mutation(async ({ input }) => {
+    try {
+      return await patchService.propose(input);
+    } catch (error) {
+      if (error instanceof PatchRejectedError) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { patchService, PatchRejectedError } from '@/backend/patching/patch-service';
+
+export const rollbackPatchProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    patchId: z.string(),
+  }))
+  .mutation(async ({ input }) => {
+    try {
+      return await patchService.rollback(input.sessionId, input.patchId);
+    } catch (error) {
+      if (error instanceof PatchRejectedError) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
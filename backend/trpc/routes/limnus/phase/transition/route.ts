@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { InvalidPhaseTransitionError } from '@/lib/limnus-storage';
+import { PHASE_TRIGGERS } from '@/lib/limnus-phases';
+
+export const phaseTransitionProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    trigger: z.enum(PHASE_TRIGGERS),
+  }))
+  .mutation(async ({ input }) => {
+    try {
+      return await limnusStorage.transitionPhase(input.sessionId, input.trigger);
+    } catch (error) {
+      if (error instanceof InvalidPhaseTransitionError) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: error.message, cause: error });
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,8 @@
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+
+// Archetypes the session's user has shown across more than one session
+export const recurringArchetypesProcedure = sessionProcedure
+  .query(async ({ ctx }) => {
+    return await limnusStorage.getRecurringArchetypes(ctx.session.userId);
+  });
@@ -1,28 +1,16 @@
-import { z } from 'zod';
-import { publicProcedure } from '@/backend/trpc/create-context';
-import { limnusStorage } from '@/lib/limnus-storage';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { reflectionRequestSchema } from '@/backend/trpc/routes/limnus/schema';
+import { reflectionEngine } from '@/backend/reflection/reflection-engine';
 
-const scaffoldInputSchema = z.object({
-  sessionId: z.string(),
-  interactions: z.array(z.object({
-    timestamp: z.number(),
-    userInput: z.string(),
-    systemResponse: z.string(),
-    context: z.record(z.string(), z.any()).optional(),
-    emotionalState: z.string().optional(),
-    cognitiveLoad: z.number().min(0).max(1).optional()
-  })),
-  reflectionDepth: z.enum(['surface', 'deep', 'transcendent']).optional().default('deep')
-});
-
-export const scaffoldProcedure = publicProcedure
-  .input(scaffoldInputSchema)
-  .mutation(async ({ input }: { input: z.infer<typeof scaffoldInputSchema> }) => {
-    const { sessionId, interactions, reflectionDepth } = input;
+export const scaffoldProcedure = sessionProcedure
+  .input(reflectionRequestSchema)
+  .mutation(async ({ input }) => {
+    const { sessionId, interactions, depth } = input;
     
-    return await limnusStorage.scaffoldReflection(
+    // LLM reflection when a model is configured, heuristics otherwise
+    return await reflectionEngine.reflect(
       sessionId,
       interactions,
-      reflectionDepth
+      depth
     );
-  });
\ No newline at end of file
+  });
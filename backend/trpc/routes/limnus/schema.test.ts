@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { reflectionRequestSchema } from './schema';
+
+describe('reflectionRequestSchema', () => {
+  const request = (depth?: unknown) => ({ sessionId: 'session-1', interactions: [], depth });
+
+  it('reads the legacy transcendent depth as archetypal', () => {
+    assert.equal(reflectionRequestSchema.parse(request('transcendent')).depth, 'archetypal');
+  });
+
+  it('keeps current depths and defaults to deep', () => {
+    assert.equal(reflectionRequestSchema.parse(request('surface')).depth, 'surface');
+    assert.equal(reflectionRequestSchema.parse(request()).depth, 'deep');
+  });
+
+  it('rejects depths it does not know', () => {
+    assert.equal(reflectionRequestSchema.safeParse(request('cosmic')).success, false);
+  });
+});
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { METRIC_REGISTRY, WRITABLE_METRIC_KEYS } from '@/lib/metric-registry';
+import { REFLECTION_DEPTHS, type MetricKey, type ReflectionDepth, type ReflectionRequest } from '@/types/limnus';
+
+// Writable metrics only, each within its registered range; unknown keys are rejected
+export const metricValuesSchema = z.object(
+  Object.fromEntries(WRITABLE_METRIC_KEYS.map(key => {
+    const { min, max } = METRIC_REGISTRY[key].range;
+    return [key, z.number().min(min).max(max).optional()];
+  })) as Record<MetricKey, z.ZodOptional<z.ZodNumber>>
+).strict();
+
+// Older clients asked for 'transcendent' reflections, now the archetypal depth
+const LEGACY_REFLECTION_DEPTHS: Record<string, ReflectionDepth> = {
+  transcendent: 'archetypal',
+};
+
+// The ReflectionRequest contract, shared by every reflection depth
+export const reflectionRequestSchema = z.object({
+  sessionId: z.string(),
+  interactions: z.array(z.object({
+    timestamp: z.number(),
+    userInput: z.string(),
+    systemResponse: z.string(),
+    context: z.record(z.string(), z.any()).optional(),
+    emotionalState: z.string().optional(),
+    cognitiveLoad: z.number().min(0).max(1).optional(),
+  })),
+  depth: z.preprocess(
+    depth => typeof depth === 'string' ? LEGACY_REFLECTION_DEPTHS[depth] ?? depth : depth,
+    z.enum(REFLECTION_DEPTHS).default('deep')
+  ),
+}) satisfies z.ZodType<ReflectionRequest, unknown>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { protectedProcedure } from '@/backend/trpc/create-context';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+
+// Procedures scoped to one LIMNUS session owned by the caller. Sessions of
+// other users are reported as missing so their ids cannot be probed.
+export const sessionProcedure = protectedProcedure
+  .input(z.object({ sessionId: z.string() }))
+  .use(async ({ ctx, input, next }) => {
+    const session = await limnusStorage.getSession(input.sessionId);
+    if (!session || session.userId !== ctx.user.id) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Session not found' });
+    }
+    return next({ ctx: { ...ctx, session } });
+  });
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { appRouter } from '@/backend/trpc/app-router';
+import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
+import { createContext } from '@/backend/trpc/create-context';
+import { limnusStorage } from '@/backend/storage/limnus-storage';
+import { issueToken } from '@/backend/auth/tokens';
+import { ACTIVATION_PHRASE } from '@/types/limnus';
+
+async function callerWithToken(token?: string) {
+  const req = new Request('http://localhost/api/trpc', {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+  return appRouter.createCaller(await createContext({ req, resHeaders: new Headers() } as FetchCreateContextFnOptions));
+}
+
+describe('limnus.session.get', () => {
+  it('returns the session to its owner', async () => {
+    const { sessionId } = await limnusStorage.createSession(ACTIVATION_PHRASE, undefined, 'owner');
+    const caller = await callerWithToken((await issueToken('owner')).token);
+
+    const session = await caller.limnus.session.get({ sessionId });
+    assert.equal(session.id, sessionId);
+  });
+
+  it('reports other users\' sessions as missing', async () => {
+    const { sessionId } = await limnusStorage.createSession(ACTIVATION_PHRASE, undefined, 'owner');
+    const stranger = await callerWithToken((await issueToken('stranger')).token);
+
+    await assert.rejects(stranger.limnus.session.get({ sessionId }), { code: 'NOT_FOUND' });
+    await assert.rejects(stranger.limnus.session.get({ sessionId: 'no-such-session' }), { code: 'NOT_FOUND' });
+  });
+
+  it('requires a valid token', async () => {
+    const { sessionId } = await limnusStorage.createSession(ACTIVATION_PHRASE, undefined, 'owner');
+
+    await assert.rejects((await callerWithToken()).limnus.session.get({ sessionId }), { code: 'UNAUTHORIZED' });
+    await assert.rejects((await callerWithToken('forged.token')).limnus.session.get({ sessionId }), { code: 'UNAUTHORIZED' });
+  });
+});
@@ -1,9 +1,4 @@
-import { z } from 'zod';
-import { publicProcedure } from '@/backend/trpc/create-context';
-import { limnusStorage } from '@/lib/limnus-storage';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
 
-export const getSessionProcedure = publicProcedure
-  .input(z.object({ sessionId: z.string() }))
-  .query(async ({ input }) => {
-    return await limnusStorage.getSession(input.sessionId);
-  });
\ No newline at end of file
+export const getSessionProcedure = sessionProcedure
+  .query(({ ctx }) => ctx.session);
@@ -0,0 +1,31 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { appRouter } from '@/backend/trpc/app-router';
+import { createLimnusConfig, limnusConfig, limnusStorage } from '@/backend/storage/limnus-storage';
+import { ACTIVATION_PHRASE } from '@/types/limnus';
+
+const user = { id: 'sync-user' };
+const caller = appRouter.createCaller({ req: new Request('http://localhost/api/trpc'), user });
+
+describe('limnus.sync', () => {
+  afterEach(() => {
+    limnusConfig.enableDistributedNodes = true;
+  });
+
+  it('syncs the caller\'s session as a node', async () => {
+    const { sessionId } = await limnusStorage.createSession(ACTIVATION_PHRASE, undefined, user.id);
+    const result = await caller.limnus.sync({ sessionId });
+    assert.equal(result.nodeStates[0].id, sessionId);
+  });
+
+  it('refuses to sync while distributed nodes are off', async () => {
+    limnusConfig.enableDistributedNodes = false;
+    const { sessionId } = await limnusStorage.createSession(ACTIVATION_PHRASE, undefined, user.id);
+    await assert.rejects(caller.limnus.sync({ sessionId }), { code: 'PRECONDITION_FAILED' });
+  });
+
+  it('reads the switch from the environment', () => {
+    assert.equal(createLimnusConfig({}).enableDistributedNodes, true);
+    assert.equal(createLimnusConfig({ LIMNUS_DISTRIBUTED_NODES: 'off' }).enableDistributedNodes, false);
+  });
+});
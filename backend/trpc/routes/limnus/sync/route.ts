@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { sessionProcedure } from '@/backend/trpc/routes/limnus/session-procedure';
+import { limnusConfig, nodeSync } from '@/backend/storage/limnus-storage';
+import { OPTIMAL_COHERENCE_RANGE } from '@/types/limnus';
+
+export const syncProcedure = sessionProcedure
+  .input(z.object({
+    sessionId: z.string(),
+    targetCoherence: z.number().min(0).max(1).default(OPTIMAL_COHERENCE_RANGE.min),
+    otherNodes: z.array(z.string()).optional(),
+  }))
+  .mutation(async ({ input }) => {
+    if (!limnusConfig.enableDistributedNodes) {
+      throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Distributed nodes are disabled' });
+    }
+
+    return await nodeSync.sync(input);
+  });
@@ -0,0 +1,161 @@
+// components/CoherenceBreakdownCard.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { topContributors, type CoherenceBreakdown, type MetricContribution } from '@/lib/coherence-engine';
+import { METRIC_REGISTRY } from '@/lib/metric-registry';
+
+interface Props {
+  coherence: CoherenceBreakdown;
+  count?: number;
+}
+
+const STATUS_COPY: Record<CoherenceBreakdown['status'], { label: string; color: string }> = {
+  below: { label: 'Below target band', color: '#F7DC6F' },
+  optimal: { label: 'Within target band', color: '#2ECC71' },
+  above: { label: 'Above target band', color: '#4ECDC4' },
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+const formatGap = (gap: number) => `${gap >= 0 ? '+' : '−'}${Math.abs(gap * 100).toFixed(0)}`;
+
+export function CoherenceBreakdownCard({ coherence, count = 3 }: Props) {
+  const { raising, lowering } = topContributors(coherence, count);
+  const status = STATUS_COPY[coherence.status];
+  // Widest bar belongs to the strongest pull in either direction
+  const maxPull = Math.max(0.001, ...coherence.contributions.map(entry => Math.abs(entry.contribution)));
+
+  const renderContribution = (entry: MetricContribution) => {
+    const raisingScore = entry.contribution > 0;
+    return (
+      <View key={entry.metric} style={styles.row}>
+        <Text style={styles.rowLabel} numberOfLines={1}>{METRIC_REGISTRY[entry.metric].label}</Text>
+        <View style={styles.barTrack}>
+          <View
+            style={[
+              styles.bar,
+              {
+                width: `${(Math.abs(entry.contribution) / maxPull) * 100}%`,
+                backgroundColor: raisingScore ? '#2ECC71' : '#FF6B6B',
+              },
+            ]}
+          />
+        </View>
+        <Text style={[styles.rowValue, { color: raisingScore ? '#2ECC71' : '#FF6B6B' }]}>
+          {`${raisingScore ? '+' : ''}${(entry.contribution * 100).toFixed(1)}`}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>Coherence</Text>
+          <Text style={[styles.status, { color: status.color }]}>{status.label}</Text>
+        </View>
+        <View style={styles.scoreBlock}>
+          <Text style={styles.score}>{formatPercent(coherence.score)}</Text>
+          <Text style={styles.target}>{`target ${formatPercent(coherence.target)} (${formatGap(coherence.gap)})`}</Text>
+        </View>
+      </View>
+
+      {coherence.decay < 0.99 && (
+        <Text style={styles.note}>
+          {`Faded from ${formatPercent(coherence.rawScore)} while the session was idle`}
+        </Text>
+      )}
+
+      {raising.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Raising the score</Text>
+          {raising.map(renderContribution)}
+        </>
+      )}
+      {lowering.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Holding it back</Text>
+          {lowering.map(renderContribution)}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(26, 26, 46, 0.8)',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: 'white',
+  },
+  status: {
+    fontSize: 12,
+    marginTop: 2,
+    fontWeight: '500' as const,
+  },
+  scoreBlock: {
+    alignItems: 'flex-end',
+  },
+  score: {
+    fontSize: 28,
+    fontWeight: 'bold' as const,
+    color: 'white',
+  },
+  target: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  note: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.5)',
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+    marginTop: 14,
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 3,
+    gap: 8,
+  },
+  rowLabel: {
+    width: 130,
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+  barTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    overflow: 'hidden' as const,
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  rowValue: {
+    width: 44,
+    fontSize: 12,
+    fontWeight: '600' as const,
+    textAlign: 'right' as const,
+  },
+});
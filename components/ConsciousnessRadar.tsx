@@ -19,38 +19,51 @@ import Svg, {
   RadialGradient,
   Stop,
 } from 'react-native-svg';
-import { ConsciousnessMetrics } from '@/types/limnus';
+import { ConsciousnessMetrics, MetricKey } from '@/types/limnus';
+import {
+  METRIC_GROUP_COLORS,
+  METRIC_GROUP_ORDER,
+  METRIC_GROUPS,
+  METRIC_REGISTRY,
+  metricGroupOf,
+  normalizeMetric,
+} from '@/lib/metric-registry';
+import { computeCoherence, type CoherenceBreakdown } from '@/lib/coherence-engine';
+
+// A second metric set drawn over the first, e.g. the same session N minutes
+// ago or another session
+export interface RadarComparison {
+  metrics: ConsciousnessMetrics;
+  label: string;
+}
 
 interface Props {
   metrics: ConsciousnessMetrics;
+  label?: string;
+  comparison?: RadarComparison;
+  // Smallest change between the two sets that gets highlighted
+  diffThreshold?: number;
+  // Shown in the center; computed from metrics with the default model if omitted
+  coherence?: CoherenceBreakdown;
   size?: number;
   onMetricPress?: (metric: string) => void;
   animateChanges?: boolean;
 }
 
-// Metric groupings for better visualization
-const METRIC_GROUPS = {
-  neural: ['neuralComplexity', 'brainwaveCoherence', 'autonomicBalance'],
-  temporal: ['responseLatency', 'temporalCoherence', 'rhythmicStability'],
-  resonance: ['spiralResonance', 'fibonacciHarmony', 'goldenRatioAlignment'],
-  quantum: ['quantumCoherence', 'nodalSynchronicity', 'blockchainResonance'],
-  consciousness: ['consciousnessDepth', 'mythicResonance', 'archetypalAlignment'],
-  interaction: ['interactionPattern', 'emotionalDepth', 'polarityAlignment'],
-  system: ['patternAlignment', 'signatureIntegrity', 'respiratoryRhythm'],
-};
+// Axes run group by group so each group's sector is contiguous
+const METRIC_KEYS: MetricKey[] = METRIC_GROUP_ORDER.flatMap(group => METRIC_GROUPS[group]);
 
-const GROUP_COLORS = {
-  neural: '#FF6B6B',
-  temporal: '#4ECDC4',
-  resonance: '#7C3AED',
-  quantum: '#F7DC6F',
-  consciousness: '#3498DB',
-  interaction: '#E74C3C',
-  system: '#2ECC71',
-};
+const PRIMARY_COLOR = '#7C3AED';
+const COMPARISON_COLOR = '#4ECDC4';
+const INCREASE_COLOR = '#2ECC71';
+const DECREASE_COLOR = '#FF6B6B';
 
 export function ConsciousnessRadar({
   metrics,
+  label = 'Current',
+  comparison,
+  diffThreshold = 0.1,
+  coherence,
   size: propSize,
   onMetricPress,
   animateChanges = true,
@@ -85,7 +98,7 @@ export function ConsciousnessRadar({
   }, [metrics, animateChanges]);
   
   // Calculate positions for each metric
-  const metricKeys = Object.keys(metrics);
+  const metricKeys = METRIC_KEYS;
   const angleStep = (2 * Math.PI) / metricKeys.length;
   
   const getMetricPosition = (index: number, value: number) => {
@@ -99,26 +112,24 @@ export function ConsciousnessRadar({
   };
   
   // Create polygon points
-  const createPolygonPoints = () => {
+  const createPolygonPoints = (values: ConsciousnessMetrics) => {
     return metricKeys.map((key, i) => {
-      const value = metrics[key as keyof ConsciousnessMetrics];
-      const pos = getMetricPosition(i, value);
+      const pos = getMetricPosition(i, radarValue(values, key));
       return `${pos.x},${pos.y}`;
     }).join(' ');
   };
   
-  // Get group for metric
-  const getMetricGroup = (metric: string) => {
-    for (const [group, metrics] of Object.entries(METRIC_GROUPS)) {
-      if (metrics.includes(metric)) return group;
-    }
-    return 'system';
+  // Signed change from the comparison set, only where it passes the threshold
+  const getDelta = (key: MetricKey) => {
+    if (!comparison) return 0;
+    const delta = radarValue(metrics, key) - radarValue(comparison.metrics, key);
+    return Math.abs(delta) >= diffThreshold ? delta : 0;
   };
   
-  const coherenceValue = calculateOverallCoherence(metrics).toFixed(0);
+  const coherenceValue = ((coherence ?? computeCoherence(metrics)).score * 100).toFixed(0);
   
   return (
-    <View style={{ width: size, height: size }}>
+    <View style={{ width: size }}>
       <Svg width={size} height={size}>
         <Defs>
           <RadialGradient id="centerGradient" cx="50%" cy="50%">
@@ -167,16 +178,12 @@ export function ConsciousnessRadar({
           );
         })}
         
-        {/* Group sectors */}
-        {Object.entries(METRIC_GROUPS).map(([group, groupMetrics]) => {
-          const indices = groupMetrics
-            .map(m => metricKeys.indexOf(m))
-            .filter(i => i !== -1);
-          
-          if (indices.length === 0) return null;
+        {/* Group sectors, each spanning half a step either side of its axes */}
+        {METRIC_GROUP_ORDER.map(group => {
+          const indices = METRIC_GROUPS[group].map(m => metricKeys.indexOf(m));
           
-          const startAngle = indices[0] * angleStep - Math.PI / 2;
-          const endAngle = indices[indices.length - 1] * angleStep - Math.PI / 2;
+          const startAngle = (indices[0] - 0.5) * angleStep - Math.PI / 2;
+          const endAngle = (indices[indices.length - 1] + 0.5) * angleStep - Math.PI / 2;
           
           const path = createSectorPath(center, radius, startAngle, endAngle);
           
@@ -184,31 +191,55 @@ export function ConsciousnessRadar({
             <Path
               key={group}
               d={path}
-              fill={GROUP_COLORS[group as keyof typeof GROUP_COLORS]}
+              fill={METRIC_GROUP_COLORS[group]}
               fillOpacity={0.05}
             />
           );
         })}
         
+        {/* Comparison polygon, drawn underneath */}
+        {comparison && (
+          <Polygon
+            points={createPolygonPoints(comparison.metrics)}
+            fill={COMPARISON_COLOR}
+            fillOpacity="0.1"
+            stroke={COMPARISON_COLOR}
+            strokeWidth="2"
+            strokeDasharray="5,4"
+          />
+        )}
+        
         {/* Metric polygon */}
         <Polygon
-          points={createPolygonPoints()}
-          fill="#7C3AED"
+          points={createPolygonPoints(metrics)}
+          fill={PRIMARY_COLOR}
           fillOpacity="0.2"
-          stroke="#7C3AED"
+          stroke={PRIMARY_COLOR}
           strokeWidth="2"
         />
         
         {/* Metric points and labels */}
         {metricKeys.map((key, i) => {
-          const value = metrics[key as keyof ConsciousnessMetrics];
-          const pos = getMetricPosition(i, value);
+          const pos = getMetricPosition(i, radarValue(metrics, key));
           const labelPos = getMetricPosition(i, 1.15);
-          const group = getMetricGroup(key);
-          const color = GROUP_COLORS[group as keyof typeof GROUP_COLORS];
+          const color = METRIC_GROUP_COLORS[metricGroupOf(key)];
+          const delta = getDelta(key);
+          const deltaColor = delta > 0 ? INCREASE_COLOR : DECREASE_COLOR;
           
           return (
             <G key={key}>
+              {/* Highlight ring where the sets differ noticeably */}
+              {delta !== 0 && (
+                <Circle
+                  cx={pos.x}
+                  cy={pos.y}
+                  r="8"
+                  fill="none"
+                  stroke={deltaColor}
+                  strokeWidth="2"
+                />
+              )}
+              
               {/* Metric point */}
               <Circle
                 cx={pos.x}
@@ -228,10 +259,22 @@ export function ConsciousnessRadar({
                 textAnchor="middle"
                 alignmentBaseline="middle"
               >
-                {formatMetricLabel(key)}
+                {METRIC_REGISTRY[key].shortLabel}
               </SvgText>
               
-
+              {delta !== 0 && (
+                <SvgText
+                  x={labelPos.x}
+                  y={labelPos.y + 11}
+                  fontSize="9"
+                  fontWeight="bold"
+                  fill={deltaColor}
+                  textAnchor="middle"
+                  alignmentBaseline="middle"
+                >
+                  {formatDelta(delta)}
+                </SvgText>
+              )}
             </G>
           );
         })}
@@ -253,8 +296,7 @@ export function ConsciousnessRadar({
       
       {/* Touch targets for metric interaction */}
       {onMetricPress && metricKeys.map((key, i) => {
-        const value = metrics[key as keyof ConsciousnessMetrics];
-        const pos = getMetricPosition(i, value);
+        const pos = getMetricPosition(i, radarValue(metrics, key));
         
         return (
           <TouchableOpacity
@@ -273,11 +315,25 @@ export function ConsciousnessRadar({
         );
       })}
       
+      {/* Series legend when comparing */}
+      {comparison && (
+        <View style={styles.legend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendLine, { borderColor: PRIMARY_COLOR }]} />
+            <Text style={styles.legendText}>{label}</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendLine, { borderColor: COMPARISON_COLOR, borderStyle: 'dashed' }]} />
+            <Text style={styles.legendText}>{comparison.label}</Text>
+          </View>
+        </View>
+      )}
+      
       {/* Legend */}
       <View style={styles.legend}>
-        {Object.entries(GROUP_COLORS).map(([group, color]) => (
+        {METRIC_GROUP_ORDER.map(group => (
           <View key={group} style={styles.legendItem}>
-            <View style={[styles.legendDot, { backgroundColor: color }]} />
+            <View style={[styles.legendDot, { backgroundColor: METRIC_GROUP_COLORS[group] }]} />
             <Text style={styles.legendText}>{formatGroupName(group)}</Text>
           </View>
         ))}
@@ -301,44 +357,19 @@ function createSectorPath(center: number, radius: number, startAngle: number, en
   `;
 }
 
-function formatMetricLabel(metric: string): string {
-  // Shorten long metric names for display
-  const abbreviations: Record<string, string> = {
-    neuralComplexity: 'Neural',
-    brainwaveCoherence: 'Brainwave',
-    autonomicBalance: 'Autonomic',
-    responseLatency: 'Latency',
-    interactionPattern: 'Pattern',
-    emotionalDepth: 'Emotion',
-    polarityAlignment: 'Polarity',
-    temporalCoherence: 'Temporal',
-    rhythmicStability: 'Rhythm',
-    spiralResonance: 'Spiral',
-    fibonacciHarmony: 'Fibonacci',
-    goldenRatioAlignment: 'Golden',
-    quantumCoherence: 'Quantum',
-    nodalSynchronicity: 'Nodal',
-    blockchainResonance: 'Chain',
-    patternAlignment: 'Align',
-    signatureIntegrity: 'Sign',
-    consciousnessDepth: 'Depth',
-    mythicResonance: 'Mythic',
-    archetypalAlignment: 'Archetype',
-    respiratoryRhythm: 'Breath',
-  };
-  
-  return abbreviations[metric] || metric;
+// Every axis is drawn on the normalized 0-1 scale
+function radarValue(metrics: ConsciousnessMetrics, key: MetricKey): number {
+  return normalizeMetric(key, metrics[key] ?? 0);
+}
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? '+' : ''}${Math.round(delta * 100)}`;
 }
 
 function formatGroupName(group: string): string {
   return group.charAt(0).toUpperCase() + group.slice(1);
 }
 
-function calculateOverallCoherence(metrics: ConsciousnessMetrics): number {
-  const values = Object.values(metrics).filter(v => typeof v === 'number') as number[];
-  const average = values.reduce((a, b) => a + b, 0) / values.length;
-  return Math.min(95, Math.max(0, average * 100));
-}
 
 const styles = StyleSheet.create({
   legend: {
@@ -360,6 +391,12 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     marginRight: 4,
   },
+  legendLine: {
+    width: 14,
+    height: 0,
+    borderTopWidth: 2,
+    marginRight: 4,
+  },
   legendText: {
     fontSize: 10,
     color: '#AAA',
@@ -0,0 +1,129 @@
+// components/DirectiveReviewCard.tsx
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Check, Lightbulb } from 'lucide-react-native';
+import { trpc } from '@/lib/trpc';
+
+interface Props {
+  sessionId: string;
+  // Changes whenever a reflection may have added directives
+  refreshKey?: number;
+  maxDirectives?: number;
+}
+
+// Pending directives from the backend session; active ones steer replies.
+// Renders nothing while the backend is unreachable.
+export function DirectiveReviewCard({ sessionId, refreshKey, maxDirectives = 3 }: Props) {
+  const pendingQuery = trpc.limnus.directives.list.useQuery(
+    { sessionId, status: 'pending' },
+    { retry: false }
+  );
+  const activateMutation = trpc.limnus.directives.activate.useMutation();
+  const { refetch } = pendingQuery;
+
+  React.useEffect(() => {
+    if (refreshKey) refetch();
+  }, [refreshKey, refetch]);
+
+  const activate = async (directiveId: string, replaceConflicting = false) => {
+    try {
+      await activateMutation.mutateAsync({ sessionId, directiveId, replaceConflicting });
+      await refetch();
+    } catch (error) {
+      const code = (error as { data?: { code?: string } })?.data?.code;
+      if (code === 'CONFLICT' && !replaceConflicting) {
+        Alert.alert(
+          'Conflicting directive',
+          'An active directive points the other way. Deprecate it and activate this one?',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Replace', onPress: () => activate(directiveId, true) },
+          ]
+        );
+        return;
+      }
+      console.error('Failed to activate directive:', error);
+      Alert.alert('Directive', 'Could not activate the directive. Please try again.');
+    }
+  };
+
+  const directives = Array.isArray(pendingQuery.data) ? pendingQuery.data.slice(0, maxDirectives) : [];
+  if (directives.length === 0) return null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Lightbulb size={14} color="#FBBF24" />
+        <Text style={styles.title}>Activate to steer future replies</Text>
+      </View>
+
+      {directives.map(directive => (
+        <View key={directive.id} style={styles.row}>
+          <Text style={styles.content} numberOfLines={2}>
+            {`(${directive.category}) ${directive.content}`}
+          </Text>
+          <TouchableOpacity
+            style={styles.activateButton}
+            onPress={() => activate(directive.id)}
+            disabled={activateMutation.isPending}
+          >
+            <Check size={12} color="#FBBF24" />
+            <Text style={styles.activateText}>Activate</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(251, 191, 36, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(251, 191, 36, 0.25)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: '#FCD34D',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  content: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 17,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  activateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(251, 191, 36, 0.4)',
+  },
+  activateText: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+    color: '#FCD34D',
+  },
+});
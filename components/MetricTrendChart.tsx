@@ -0,0 +1,161 @@
+// components/MetricTrendChart.tsx
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Path, Line, Defs, LinearGradient, Stop } from 'react-native-svg';
+import type { TimelineMarker } from '@/lib/metrics-history';
+import type { MetricUnit } from '@/lib/metric-registry';
+
+export interface TrendPoint {
+  time: number; // epoch ms
+  value: number;
+}
+
+interface Props {
+  metric: string;
+  label: string;
+  color: string;
+  points: TrendPoint[];
+  // Visible time window, epoch ms
+  start: number;
+  end: number;
+  markers?: TimelineMarker[];
+  width: number;
+  height?: number;
+  unit?: MetricUnit;
+}
+
+const MARKER_COLORS: Record<TimelineMarker['kind'], string> = {
+  phase: '#F7DC6F',
+  reflection: '#EC4899',
+};
+
+const PADDING_Y = 6;
+
+export function MetricTrendChart({
+  metric,
+  label,
+  color,
+  points,
+  start,
+  end,
+  markers = [],
+  width,
+  height = 90,
+  unit,
+}: Props) {
+  const visible = useMemo(
+    () => points.filter(point => point.time >= start && point.time <= end),
+    [points, start, end]
+  );
+
+  // 0-1 metrics share a fixed scale; unbounded ones (latency) scale to their peak
+  const maxValue = Math.max(1, ...visible.map(point => point.value));
+  const span = Math.max(1, end - start);
+  const toX = (time: number) => ((time - start) / span) * width;
+  const toY = (value: number) => PADDING_Y + (1 - value / maxValue) * (height - PADDING_Y * 2);
+
+  let linePath = '';
+  let areaPath = '';
+  if (visible.length > 0) {
+    const coords = visible.map(point => `${toX(point.time).toFixed(1)} ${toY(point.value).toFixed(1)}`);
+    const baseline = toY(0).toFixed(1);
+    linePath = `M ${coords.join(' L ')}`;
+    areaPath = `${linePath} L ${toX(visible[visible.length - 1].time).toFixed(1)} ${baseline} L ${toX(visible[0].time).toFixed(1)} ${baseline} Z`;
+  }
+
+  const latest = visible.length > 0 ? visible[visible.length - 1].value : null;
+  const formattedLatest = latest === null
+    ? '—'
+    : unit === 'ms' ? `${Math.round(latest)}ms` : `${(latest * 100).toFixed(0)}%`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={[styles.swatch, { backgroundColor: color }]} />
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.value}>{formattedLatest}</Text>
+      </View>
+      <Svg width={width} height={height}>
+        <Defs>
+          <LinearGradient id={`trend-${metric}`} x1="0" y1="0" x2="0" y2="1">
+            <Stop offset="0" stopColor={color} stopOpacity={0.35} />
+            <Stop offset="1" stopColor={color} stopOpacity={0} />
+          </LinearGradient>
+        </Defs>
+
+        {/* Grid at 0, 50% and 100% of the scale */}
+        {[0, 0.5, 1].map(fraction => (
+          <Line
+            key={`grid-${fraction}`}
+            x1={0}
+            x2={width}
+            y1={toY(maxValue * fraction)}
+            y2={toY(maxValue * fraction)}
+            stroke="rgba(255, 255, 255, 0.08)"
+            strokeWidth={1}
+          />
+        ))}
+
+        {/* Phase transition and reflection markers */}
+        {markers.map((marker, index) => {
+          const time = Date.parse(marker.timestamp);
+          if (time < start || time > end) return null;
+          const x = toX(time);
+          return (
+            <Line
+              key={`marker-${index}`}
+              x1={x}
+              x2={x}
+              y1={0}
+              y2={height}
+              stroke={MARKER_COLORS[marker.kind]}
+              strokeWidth={1}
+              strokeDasharray={marker.kind === 'phase' ? '4,3' : '1,3'}
+              opacity={0.7}
+            />
+          );
+        })}
+
+        {areaPath ? <Path d={areaPath} fill={`url(#trend-${metric})`} /> : null}
+        {linePath ? (
+          <Path
+            d={linePath}
+            stroke={color}
+            strokeWidth={2}
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ) : null}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+    gap: 8,
+  },
+  swatch: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontWeight: '500' as const,
+  },
+  value: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontWeight: '600' as const,
+  },
+});
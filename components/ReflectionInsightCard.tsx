@@ -0,0 +1,78 @@
+// components/ReflectionInsightCard.tsx
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Sparkles, X } from 'lucide-react-native';
+import type { ReflectionNotice } from '@/lib/chat-context';
+
+interface Props {
+  notice: ReflectionNotice;
+  onDismiss: () => void;
+  maxInsights?: number;
+}
+
+const REASON_COPY: Record<ReflectionNotice['reason'], string> = {
+  turn_count: 'Reflected on the last few turns',
+  idle: 'Reflected while the conversation paused',
+  coherence_shift: 'Reflected as coherence left its target band',
+};
+
+export function ReflectionInsightCard({ notice, onDismiss, maxInsights = 3 }: Props) {
+  const insights = notice.insights.slice(0, maxInsights);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Sparkles size={14} color="#A78BFA" />
+        <Text style={styles.title} numberOfLines={1}>{REASON_COPY[notice.reason]}</Text>
+        <TouchableOpacity onPress={onDismiss} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <X size={14} color="rgba(255, 255, 255, 0.5)" />
+        </TouchableOpacity>
+      </View>
+
+      {insights.map((insight, index) => (
+        <Text key={`insight-${index}`} style={styles.insight} numberOfLines={2}>
+          {`• ${insight}`}
+        </Text>
+      ))}
+
+      <Text style={styles.meta}>
+        {`${notice.directiveCount} new directive${notice.directiveCount === 1 ? '' : 's'} · ${notice.phase.toLowerCase()}`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(124, 58, 237, 0.12)',
+    borderWidth: 1,
+    borderColor: 'rgba(167, 139, 250, 0.25)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: '#C4B5FD',
+  },
+  insight: {
+    fontSize: 12,
+    lineHeight: 17,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  meta: {
+    marginTop: 4,
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.45)',
+  },
+});
@@ -0,0 +1,165 @@
+import type { ArchetypeOccurrence, RecurringArchetype, ReflectionInteraction } from '@/types/limnus';
+import { extractFeatures } from '@/lib/message-analysis';
+
+// Archetypal reflection: each interaction's user input is matched against a
+// library of archetypes by theme vocabulary, and archetypes that come back
+// across sessions are tracked per user.
+
+export interface ArchetypeDefinition {
+  id: string;
+  name: string;
+  themes: string[];
+  keywords: string[];
+  // Directive content when the archetype dominates a reflection
+  guidance: string;
+}
+
+export const ARCHETYPE_LIBRARY: ArchetypeDefinition[] = [
+  {
+    id: 'seeker', name: 'The Seeker', themes: ['meaning', 'purpose', 'searching'],
+    keywords: ['search', 'seek', 'meaning', 'purpose', 'journey', 'path', 'lost', 'find', 'why', 'calling'],
+    guidance: 'Meet the Seeker with open questions and leave room for them to find their own answers.',
+  },
+  {
+    id: 'sage', name: 'The Sage', themes: ['knowledge', 'understanding', 'truth'],
+    keywords: ['understand', 'know', 'learn', 'wisdom', 'knowledge', 'explain', 'insight', 'study', 'truth', 'reason'],
+    guidance: 'Offer the Sage clear reasoning and sources, and name what is still uncertain.',
+  },
+  {
+    id: 'creator', name: 'The Creator', themes: ['making', 'imagination', 'expression'],
+    keywords: ['create', 'build', 'make', 'design', 'imagine', 'invent', 'write', 'art', 'idea', 'project'],
+    guidance: 'Support the Creator by building on their ideas before suggesting alternatives.',
+  },
+  {
+    id: 'caregiver', name: 'The Caregiver', themes: ['care', 'protection', 'service'],
+    keywords: ['help', 'care', 'support', 'protect', 'nurture', 'family', 'comfort', 'heal', 'kind', 'others'],
+    guidance: 'Acknowledge the Caregiver’s effort for others and ask how they are caring for themselves.',
+  },
+  {
+    id: 'explorer', name: 'The Explorer', themes: ['discovery', 'freedom', 'novelty'],
+    keywords: ['explore', 'discover', 'adventure', 'travel', 'new', 'freedom', 'curious', 'unknown', 'venture', 'try'],
+    guidance: 'Give the Explorer options and new directions rather than a single prescribed route.',
+  },
+  {
+    id: 'rebel', name: 'The Rebel', themes: ['disruption', 'resistance', 'change'],
+    keywords: ['break', 'rules', 'change', 'resist', 'rebel', 'against', 'disrupt', 'revolution', 'refuse', 'system'],
+    guidance: 'Take the Rebel’s objections seriously and reason with them instead of defending convention.',
+  },
+  {
+    id: 'hero', name: 'The Hero', themes: ['challenge', 'courage', 'mastery'],
+    keywords: ['challenge', 'overcome', 'courage', 'brave', 'win', 'goal', 'prove', 'strong', 'fight', 'achieve'],
+    guidance: 'Frame next steps for the Hero as concrete challenges with visible progress.',
+  },
+  {
+    id: 'innocent', name: 'The Innocent', themes: ['hope', 'safety', 'trust'],
+    keywords: ['hope', 'simple', 'trust', 'pure', 'happy', 'safe', 'faith', 'optimistic', 'believe', 'good'],
+    guidance: 'Keep answers for the Innocent simple and reassuring without hiding real risks.',
+  },
+  {
+    id: 'lover', name: 'The Lover', themes: ['intimacy', 'beauty', 'connection'],
+    keywords: ['love', 'passion', 'intimacy', 'relationship', 'beauty', 'desire', 'partner', 'together', 'heart', 'romance'],
+    guidance: 'Respond to the Lover with warmth and attention to the relationships they describe.',
+  },
+  {
+    id: 'shadow', name: 'The Shadow', themes: ['fear', 'shame', 'the hidden'],
+    keywords: ['fear', 'dark', 'hide', 'shame', 'anger', 'guilt', 'secret', 'avoid', 'denial', 'afraid'],
+    guidance: 'Approach Shadow material gently, without judgement, and never push past what is offered.',
+  },
+  {
+    id: 'trickster', name: 'The Trickster', themes: ['play', 'irony', 'paradox'],
+    keywords: ['joke', 'funny', 'play', 'irony', 'absurd', 'laugh', 'game', 'trick', 'paradox', 'silly'],
+    guidance: 'Match the Trickster’s playfulness while keeping the underlying question in view.',
+  },
+  {
+    id: 'ruler', name: 'The Ruler', themes: ['order', 'control', 'responsibility'],
+    keywords: ['control', 'order', 'plan', 'lead', 'organize', 'manage', 'responsibility', 'power', 'structure', 'decide'],
+    guidance: 'Give the Ruler structured, decision-ready answers with clear trade-offs.',
+  },
+];
+
+// An interaction counts toward an archetype from this strength (one keyword)
+export const MIN_ARCHETYPE_STRENGTH = 0.3;
+// Sessions an archetype must appear in to count as recurring
+export const RECURRING_SESSION_COUNT = 2;
+
+const ARCHETYPES_BY_ID = new Map(ARCHETYPE_LIBRARY.map(archetype => [archetype.id, archetype]));
+
+export function getArchetype(id: string): ArchetypeDefinition | undefined {
+  return ARCHETYPES_BY_ID.get(id);
+}
+
+// Short keywords must match exactly; longer ones also match inflections
+function matchesKeyword(word: string, keyword: string): boolean {
+  return word === keyword || (keyword.length >= 5 && word.startsWith(keyword));
+}
+
+// Strength per archetype for one piece of text, strongest first
+export function classifyText(text: string): { archetype: string; strength: number }[] {
+  const { words } = extractFeatures(text);
+  return ARCHETYPE_LIBRARY
+    .map(archetype => {
+      const hits = words.filter(word => archetype.keywords.some(keyword => matchesKeyword(word, keyword))).length;
+      return { archetype: archetype.id, strength: hits / (hits + 2) };
+    })
+    .filter(match => match.strength >= MIN_ARCHETYPE_STRENGTH)
+    .sort((a, b) => b.strength - a.strength);
+}
+
+// Archetypes present in a reflection window. Strength is averaged over the
+// whole window, so an archetype in every interaction outranks a single spike.
+export function classifyInteractions(interactions: ReflectionInteraction[]): ArchetypeOccurrence[] {
+  const found = new Map<string, { interactions: number[]; total: number }>();
+
+  interactions.forEach((interaction, index) => {
+    for (const match of classifyText(interaction.userInput)) {
+      const entry = found.get(match.archetype) ?? { interactions: [], total: 0 };
+      entry.interactions.push(index);
+      entry.total += match.strength;
+      found.set(match.archetype, entry);
+    }
+  });
+
+  return Array.from(found.entries())
+    .map(([id, entry]) => ({
+      archetype: id,
+      name: ARCHETYPES_BY_ID.get(id)!.name,
+      interactions: entry.interactions,
+      strength: entry.total / Math.max(interactions.length, 1),
+    }))
+    .sort((a, b) => b.strength - a.strength || a.archetype.localeCompare(b.archetype));
+}
+
+// Folds one session's occurrences into a user's archetype history
+export function mergeArchetypeHistory(
+  history: RecurringArchetype[],
+  sessionId: string,
+  occurrences: ArchetypeOccurrence[],
+  at: string = new Date().toISOString()
+): RecurringArchetype[] {
+  const byId = new Map(history.map(record => [record.archetype, record]));
+  for (const occurrence of occurrences) {
+    const record = byId.get(occurrence.archetype);
+    byId.set(occurrence.archetype, record
+      ? {
+          ...record,
+          sessionIds: record.sessionIds.includes(sessionId) ? record.sessionIds : [...record.sessionIds, sessionId],
+          occurrences: record.occurrences + occurrence.interactions.length,
+          lastSeen: at,
+        }
+      : {
+          archetype: occurrence.archetype,
+          name: occurrence.name,
+          sessionIds: [sessionId],
+          occurrences: occurrence.interactions.length,
+          firstSeen: at,
+          lastSeen: at,
+        });
+  }
+  return Array.from(byId.values());
+}
+
+export function recurringArchetypes(history: RecurringArchetype[]): RecurringArchetype[] {
+  return history
+    .filter(record => record.sessionIds.length >= RECURRING_SESSION_COUNT)
+    .sort((a, b) => b.sessionIds.length - a.sessionIds.length || b.occurrences - a.occurrences);
+}
@@ -0,0 +1,22 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const AUTH_TOKEN_KEY = 'limnus_auth_token';
+
+let cachedToken: string | null | undefined;
+
+// Bearer token issued by limnus.consent.start or auth.login
+export async function getAuthToken(): Promise<string | null> {
+  if (cachedToken === undefined) {
+    cachedToken = await AsyncStorage.getItem(AUTH_TOKEN_KEY);
+  }
+  return cachedToken;
+}
+
+export async function setAuthToken(token: string | null): Promise<void> {
+  cachedToken = token;
+  if (token) {
+    await AsyncStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    await AsyncStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+}
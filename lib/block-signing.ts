@@ -0,0 +1,106 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { sha256 } from '@noble/hashes/sha2';
+import type { DeviceKey, MemoryBlock } from '@/types/limnus';
+import type { LimnusStorageAdapter } from '@/lib/limnus-storage';
+
+// Ed25519 signatures over memory block hashes. Each device (and the backend)
+// holds one keypair and registers its public key with the session.
+
+export interface DeviceKeyPair {
+  keyId: string;
+  publicKey: string;  // hex
+  privateKey: string; // hex seed, never leaves the device
+}
+
+export interface BlockSigner {
+  label: string;
+  getKeyPair(): Promise<DeviceKeyPair>;
+}
+
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'unknown_key';
+
+export function deriveKeyId(publicKey: string): string {
+  return bytesToHex(sha256(hexToBytes(publicKey))).slice(0, 16);
+}
+
+export function keyPairFromSeed(seed: Uint8Array): DeviceKeyPair {
+  const publicKey = bytesToHex(ed25519.getPublicKey(seed));
+  return {
+    keyId: deriveKeyId(publicKey),
+    publicKey,
+    privateKey: bytesToHex(seed),
+  };
+}
+
+export function signMessage(message: string, keyPair: DeviceKeyPair): string {
+  return bytesToHex(ed25519.sign(utf8ToBytes(message), hexToBytes(keyPair.privateKey)));
+}
+
+export function verifyMessage(message: string, signature: string, publicKey: string): boolean {
+  try {
+    return ed25519.verify(hexToBytes(signature), utf8ToBytes(message), hexToBytes(publicKey));
+  } catch {
+    // Malformed hex or a point not on the curve
+    return false;
+  }
+}
+
+export function signBlock(block: MemoryBlock, keyPair: DeviceKeyPair): MemoryBlock {
+  return {
+    ...block,
+    signature: signMessage(block.hash, keyPair),
+    signerKeyId: keyPair.keyId,
+  };
+}
+
+export function verifyBlockSignature(block: MemoryBlock, keys: DeviceKey[]): SignatureStatus {
+  if (!block.signerKeyId) return 'unsigned';
+  const key = keys.find(k => k.keyId === block.signerKeyId);
+  if (!key) return 'unknown_key';
+  return verifyMessage(block.hash, block.signature, key.publicKey) ? 'valid' : 'invalid';
+}
+
+// Message a device signs to prove it holds the key it registers
+export function keyRegistrationMessage(sessionId: string, publicKey: string): string {
+  return `limnus-key-registration:${sessionId}:${publicKey}`;
+}
+
+// Message a device signs to log in with a key registered on a session
+export function loginMessage(sessionId: string, publicKey: string, timestamp: number): string {
+  return `limnus-login:${sessionId}:${publicKey}:${timestamp}`;
+}
+
+// Loads the keypair from storage, generating and saving one on first use
+export function createStoredKeySigner(
+  storage: LimnusStorageAdapter,
+  storageKey: string,
+  randomBytes: (length: number) => Uint8Array,
+  label: string
+): BlockSigner {
+  let pending: Promise<DeviceKeyPair> | null = null;
+
+  const load = async (): Promise<DeviceKeyPair> => {
+    const stored = await storage.getItem(storageKey);
+    if (stored) {
+      return keyPairFromSeed(hexToBytes(JSON.parse(stored).privateKey));
+    }
+    const keyPair = keyPairFromSeed(randomBytes(32));
+    await storage.setItem(storageKey, JSON.stringify({ privateKey: keyPair.privateKey }));
+    console.log('Generated signing key:', label, keyPair.keyId);
+    return keyPair;
+  };
+
+  return {
+    label,
+    getKeyPair: () => {
+      if (!pending) {
+        pending = load().catch(error => {
+          pending = null;
+          throw error;
+        });
+      }
+      return pending;
+    },
+  };
+}
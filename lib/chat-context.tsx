@@ -3,12 +3,45 @@ import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { trpc } from '@/lib/trpc';
 import { useLimnus } from '@/lib/limnus-provider';
-import type { ConsciousnessMetrics } from '@/types/limnus';
+import { streamChatMessage, StreamUnavailableError } from '@/lib/chat-stream';
+import { useConnectionStatus } from '@/lib/connection-status';
+import {
+  createOutboxEntry,
+  loadOutbox,
+  nextPendingEntry,
+  retryDelay,
+  saveOutbox,
+  withFailedAttempt,
+  type DeliveryStatus,
+  type OutboxEntry,
+} from '@/lib/chat-outbox';
+import { analyzeMessage, type MessageAnalysis } from '@/lib/message-analysis';
+import {
+  DEFAULT_REFLECTION_SCHEDULE,
+  INITIAL_SCHEDULER_STATE,
+  afterReflection,
+  idleReflectionDue,
+  recordTurn,
+  type ReflectionReason,
+} from '@/lib/reflection-scheduler';
+import type { ConsciousnessMetrics, LimnusPhase } from '@/types/limnus';
 
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  idempotencyKey?: string;
+  // Only set on user messages sent or queued on this device
+  status?: DeliveryStatus;
+}
+
+// Outcome of a scheduled reflection, shown until dismissed
+export interface ReflectionNotice {
+  reason: ReflectionReason;
+  insights: string[];
+  directiveCount: number;
+  phase: LimnusPhase;
+  timestamp: number;
 }
 
 export interface Conversation {
@@ -18,73 +51,45 @@ export interface Conversation {
   timestamp: number;
 }
 
-// Consciousness metrics analysis function
-const analyzeMessageForMetrics = (message: string): Partial<ConsciousnessMetrics> => {
-  const text = message.toLowerCase();
-  const wordCount = message.split(/\s+/).length;
-  const sentenceCount = message.split(/[.!?]+/).filter(s => s.trim().length > 0).length;
-  
-  // Emotional depth - based on emotional vocabulary and intensity
-  const emotionalWords = ['feel', 'emotion', 'love', 'fear', 'joy', 'sad', 'angry', 'happy', 'excited', 'worried', 'hope', 'dream'];
-  const emotionalScore = Math.min(1.0, emotionalWords.filter(word => text.includes(word)).length / 4);
-  
-  // Neural complexity - based on sentence structure and vocabulary diversity
-  const uniqueWords = new Set(text.split(/\s+/)).size;
-  const vocabularyDiversity = uniqueWords / Math.max(1, wordCount);
-  const avgWordsPerSentence = wordCount / Math.max(1, sentenceCount);
-  const complexityScore = Math.min(1.0, (vocabularyDiversity + avgWordsPerSentence / 20) / 2);
-  
-  // Pattern recognition - based on logical connectors and reasoning patterns
-  const patternWords = ['because', 'therefore', 'thus', 'hence', 'pattern', 'connection', 'relationship', 'similar', 'different'];
-  const patternScore = Math.min(1.0, patternWords.filter(word => text.includes(word)).length / 3);
-  
-  // Self-reflection depth - based on metacognitive vocabulary
-  const reflectionWords = ['think', 'know', 'understand', 'realize', 'aware', 'conscious', 'mind', 'thought', 'reflect', 'consider'];
-  const reflectionScore = Math.min(1.0, reflectionWords.filter(word => text.includes(word)).length / 4);
-  
-  // Creativity index - based on abstract concepts and metaphors
-  const creativeWords = ['like', 'as', 'metaphor', 'symbol', 'imagine', 'create', 'innovative', 'unique', 'original', 'artistic'];
-  const creativityScore = Math.min(1.0, creativeWords.filter(word => text.includes(word)).length / 3);
-  
-  // Empathy resonance - based on interpersonal and emotional attunement words
-  const empathyWords = ['understand', 'feel', 'empathy', 'compassion', 'care', 'support', 'help', 'together', 'share', 'connect'];
-  const empathyScore = Math.min(1.0, empathyWords.filter(word => text.includes(word)).length / 3);
-  
-  // Intentionality clarity - based on goal-oriented and purposeful language
-  const intentWords = ['goal', 'purpose', 'aim', 'intend', 'plan', 'want', 'need', 'should', 'will', 'must'];
-  const intentScore = Math.min(1.0, intentWords.filter(word => text.includes(word)).length / 3);
-  
-  return {
-    emotionalDepth: 0.2 + (emotionalScore * 0.8),
-    neuralComplexity: 0.3 + (complexityScore * 0.7),
-    patternRecognition: 0.3 + (patternScore * 0.7),
-    selfReflectionDepth: 0.2 + (reflectionScore * 0.8),
-    creativityIndex: 0.2 + (creativityScore * 0.8),
-    empathyResonance: 0.3 + (empathyScore * 0.7),
-    intentionalityClarity: 0.3 + (intentScore * 0.7),
-    // Base values for other metrics
-    brainwaveCoherence: 0.4 + Math.random() * 0.2,
-    autonomicBalance: 0.5 + Math.random() * 0.1,
-    responseLatency: Math.max(100, wordCount * 50), // Simulated based on message length
-    interactionPattern: 0.6 + Math.random() * 0.2,
-  };
-};
-
 export const [ChatProvider, useChat] = createContextHook(() => {
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isSending, setIsSending] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState<string>('');
   const [isStreaming, setIsStreaming] = useState(false);
-  const streamingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [currentPersonaId, setCurrentPersonaId] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   
   // Limnus consciousness tracking
   const limnusContext = useLimnus();
-  const { session: limnusSession, updateMetrics, hasConsented } = limnusContext || {
+  const { session: limnusSession, updateMetrics, scaffoldReflection, hasConsented } = limnusContext || {
     session: null,
-    updateMetrics: async () => {},
+    updateMetrics: async () => null,
+    scaffoldReflection: async () => null,
     hasConsented: false,
   };
+  
+  // Completed turns waiting for the next scheduled reflection
+  const schedulerRef = useRef(INITIAL_SCHEDULER_STATE);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isReflectingRef = useRef(false);
+  const [reflectionNotice, setReflectionNotice] = useState<ReflectionNotice | null>(null);
+
+  // Sends that have not reached the server, replayed oldest first
+  const isConnected = useConnectionStatus();
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOutboxLoaded, setIsOutboxLoaded] = useState(false);
+  // Bumped by the backoff timer to re-run the flush effect
+  const [retryTick, setRetryTick] = useState(0);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const isOutboxLoadedRef = useRef(false);
+  const isFlushingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isConnectedRef = useRef(isConnected);
+  const messagesRef = useRef<Message[]>([]);
+  const currentConversationIdRef = useRef<string | null>(null);
+  // Analysis of each queued message, computed once when it is sent
+  const inputAnalysisRef = useRef(new Map<string, MessageAnalysis>());
 
   const conversationsQuery = trpc.chat.getConversations.useQuery();
   const messagesQuery = trpc.chat.getMessages.useQuery(
@@ -92,22 +97,62 @@ export const [ChatProvider, useChat] = createContextHook(() => {
     { enabled: !!currentConversationId }
   );
   const sendMessageMutation = trpc.chat.sendMessage.useMutation();
+  const startConversationMutation = trpc.chat.startConversation.useMutation();
+  const personasQuery = trpc.chat.personas.list.useQuery();
+  const trpcUtils = trpc.useUtils();
 
-  // Load current conversation from storage
+  // Load current conversation and queued sends from storage
   useEffect(() => {
     const loadCurrentConversation = async () => {
+      let stored: string | null = null;
       try {
-        const stored = await AsyncStorage.getItem('currentConversationId');
+        stored = await AsyncStorage.getItem('currentConversationId');
         if (stored) {
           setCurrentConversationId(stored);
         }
       } catch (error) {
         console.error('Failed to load current conversation:', error);
       }
+
+      // Sends queued before the outbox loaded go after the stored ones
+      const entries = await loadOutbox(stored);
+      const merged = [
+        ...entries,
+        ...outboxRef.current.filter(entry => !entries.some(loaded => loaded.idempotencyKey === entry.idempotencyKey)),
+      ];
+      outboxRef.current = merged;
+      isOutboxLoadedRef.current = true;
+      setOutbox(merged);
+      setIsOutboxLoaded(true);
+      if (merged.length !== entries.length) {
+        saveOutbox(merged);
+      }
     };
     loadCurrentConversation();
   }, []);
 
+  useEffect(() => {
+    isConnectedRef.current = isConnected;
+  }, [isConnected]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    currentConversationIdRef.current = currentConversationId;
+  }, [currentConversationId]);
+
+  // Saving before the stored outbox is loaded would overwrite it
+  const updateOutbox = useCallback((update: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+    const next = update(outboxRef.current);
+    outboxRef.current = next;
+    setOutbox(next);
+    if (isOutboxLoadedRef.current) {
+      saveOutbox(next);
+    }
+  }, []);
+
   // Update messages when conversation changes
   useEffect(() => {
     console.log('Messages query data:', messagesQuery.data);
@@ -129,165 +174,364 @@ export const [ChatProvider, useChat] = createContextHook(() => {
     }
   }, [currentConversationId]);
 
-  const startNewConversation = useCallback(() => {
+  const startNewConversation = useCallback((personaId?: string) => {
     const newConversationId = `conv-${Date.now()}`;
     setCurrentConversationId(newConversationId);
+    setCurrentPersonaId(personaId || null);
     setMessages([]);
-  }, []);
+
+    // Create the conversation server-side so it opens with the persona's greeting
+    startConversationMutation.mutateAsync({ conversationId: newConversationId, personaId })
+      .then(result => {
+        trpcUtils.chat.getMessages.setData(
+          { conversationId: newConversationId },
+          { messages: result.messages, success: true }
+        );
+      })
+      .catch(error => {
+        console.warn('Failed to start conversation on server:', error);
+      });
+
+    return newConversationId;
+  }, [startConversationMutation, trpcUtils]);
 
   const selectConversation = useCallback((conversationId: string) => {
     setCurrentConversationId(conversationId);
+    // Existing conversations keep the persona they were started with
+    setCurrentPersonaId(null);
   }, []);
 
-  const sendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || isSending) return;
+  // A new or reset Limnus session starts with an empty schedule
+  const limnusSessionId = limnusSession?.id;
+  useEffect(() => {
+    schedulerRef.current = INITIAL_SCHEDULER_STATE;
+    setReflectionNotice(null);
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+  }, [limnusSessionId]);
 
-    console.log('Sending message:', content.trim());
-    console.log('Current conversation ID:', currentConversationId);
-    console.log('Limnus session active:', !!limnusSession);
+  const runReflection = useCallback(async (reason: ReflectionReason) => {
+    const turns = schedulerRef.current.pendingTurns;
+    if (isReflectingRef.current || turns.length === 0) return;
+    
+    isReflectingRef.current = true;
+    try {
+      console.log('Scheduled reflection:', { reason, turns: turns.length });
+      const scaffold = await scaffoldReflection(turns, DEFAULT_REFLECTION_SCHEDULE.depth);
+      // On failure the turns stay pending for the next trigger
+      if (scaffold) {
+        schedulerRef.current = afterReflection(schedulerRef.current, turns);
+        setReflectionNotice({
+          reason,
+          insights: scaffold.insights,
+          directiveCount: scaffold.teachingDirectives.length,
+          phase: scaffold.nextPhase,
+          timestamp: scaffold.timestamp,
+        });
+      }
+    } catch (error) {
+      console.error('Scheduled reflection failed:', error);
+    } finally {
+      isReflectingRef.current = false;
+    }
+  }, [scaffoldReflection]);
+
+  // Restarted after every turn, so it only fires once the chat goes quiet
+  const scheduleIdleReflection = useCallback(() => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+    }
+    idleTimerRef.current = setTimeout(() => {
+      idleTimerRef.current = null;
+      if (idleReflectionDue(schedulerRef.current)) {
+        runReflection('idle');
+      }
+    }, DEFAULT_REFLECTION_SCHEDULE.idleMs);
+  }, [runReflection]);
 
+  const dismissReflectionNotice = useCallback(() => {
+    setReflectionNotice(null);
+  }, []);
+
+  // One attempt at an outbox entry; throws when the send did not go through
+  const deliverEntry = useCallback(async (entry: OutboxEntry) => {
+    const { conversationId, content } = entry;
+    // Replays for another conversation run in the background
+    const isCurrent = conversationId === currentConversationIdRef.current;
     const userMessage: Message = {
       role: 'user',
-      content: content.trim(),
-      timestamp: Date.now(),
+      content,
+      timestamp: entry.createdAt,
+      idempotencyKey: entry.idempotencyKey,
+      status: 'sent',
     };
 
-    // Add user message immediately
-    setMessages(prev => [...prev, userMessage]);
     setIsSending(true);
-    setIsStreaming(true);
-    setStreamingMessage('');
+    if (isCurrent) {
+      setIsStreaming(true);
+      setStreamingMessage('');
+    }
     
     const startTime = Date.now();
 
     try {
-      const conversationId = currentConversationId || `conv-${Date.now()}`;
-      if (!currentConversationId) {
-        setCurrentConversationId(conversationId);
-      }
-
-      console.log('Making tRPC call with:', { conversationId, message: content.trim() });
+      console.log('Sending chat request with:', { conversationId, message: content, attempt: entry.attempts + 1 });
 
-      // Analyze message for consciousness metrics if Limnus is active
-      if (limnusSession && hasConsented) {
-        const messageMetrics = analyzeMessageForMetrics(content.trim());
-        console.log('Consciousness metrics for message:', messageMetrics);
-        
-        // Update metrics with context
-        await updateMetrics(messageMetrics, {
-          action: 'message_sent',
-          duration: 0, // Will be updated after response
-          userInput: content.trim(),
-        });
-      }
-
-      // Simulate streaming effect for better UX
-      const result = await sendMessageMutation.mutateAsync({
+      const request = {
         conversationId,
-        message: content.trim(),
-        messages: [...messages, userMessage],
-      });
+        message: content,
+        messages: isCurrent ? [...messagesRef.current, userMessage] : undefined,
+        personaId: entry.personaId,
+        limnusSessionId: hasConsented && limnusSession ? limnusSession.id : undefined,
+        idempotencyKey: entry.idempotencyKey,
+      };
 
-      console.log('tRPC response:', result);
+      // Stream the response token by token, cancellable via cancelStreaming
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+      let streamedText = '';
+      let result;
 
-      // Check if result exists and has the expected structure
-      if (result && typeof result === 'object' && 'success' in result && result.success && result.message) {
-        // Simulate typing effect
-        const fullResponse = result.message.content;
-        const words = fullResponse.split(' ');
-        let currentText = '';
-        
-        for (let i = 0; i < words.length; i++) {
-          currentText += (i > 0 ? ' ' : '') + words[i];
-          setStreamingMessage(currentText);
-          
-          // Add realistic typing delay
-          await new Promise(resolve => {
-            streamingTimeoutRef.current = setTimeout(resolve, 50 + Math.random() * 100);
-          });
+      try {
+        result = await streamChatMessage(request, (text) => {
+          streamedText += text;
+          if (isCurrent) {
+            setStreamingMessage(streamedText);
+          }
+        }, abortController.signal);
+      } catch (streamError) {
+        if (abortController.signal.aborted) {
+          console.log('Streaming cancelled after', streamedText.length, 'characters');
+          // The server recorded the turn; keep the partial response the user already saw
+          if (isCurrent) {
+            setMessages(prev => [
+              ...prev,
+              userMessage,
+              ...(streamedText ? [{ role: 'assistant' as const, content: streamedText, timestamp: Date.now() }] : []),
+            ]);
+          }
+          return;
         }
-        
-        // Add the complete message
-        setMessages(prev => [...prev, result.message]);
-        setStreamingMessage('');
-        setIsStreaming(false);
-        
-        // Update consciousness metrics with response analysis if Limnus is active
-        if (limnusSession && hasConsented) {
-          const responseMetrics = analyzeMessageForMetrics(fullResponse);
-          const interactionDuration = Date.now() - startTime;
-          
-          console.log('Consciousness metrics for response:', responseMetrics);
-          
-          // Combine user and assistant metrics for a more complete picture
-          const combinedMetrics: Partial<ConsciousnessMetrics> = {
-            emotionalDepth: Math.max(responseMetrics.emotionalDepth || 0, 0.3),
-            neuralComplexity: Math.max(responseMetrics.neuralComplexity || 0, 0.4),
-            patternRecognition: Math.max(responseMetrics.patternRecognition || 0, 0.5),
-            selfReflectionDepth: Math.max(responseMetrics.selfReflectionDepth || 0, 0.4),
-            creativityIndex: Math.max(responseMetrics.creativityIndex || 0, 0.6),
-            empathyResonance: Math.max(responseMetrics.empathyResonance || 0, 0.5),
-            intentionalityClarity: Math.max(responseMetrics.intentionalityClarity || 0, 0.4),
-            // Enhanced metrics based on conversation flow
-            brainwaveCoherence: 0.5 + Math.random() * 0.3,
-            memoryConsolidation: 0.4 + (interactionDuration > 5000 ? 0.3 : 0.1),
-            consciousnessDepth: 0.5 + Math.random() * 0.2,
-            phaseAlignment: 0.6 + Math.random() * 0.2,
-          };
-          
-          await updateMetrics(combinedMetrics, {
-            action: 'conversation_turn',
-            duration: interactionDuration,
-            userInput: content.trim(),
-          });
+        if (!(streamError instanceof StreamUnavailableError)) {
+          throw streamError;
         }
-        
-        // Refetch conversations to update the list
-        conversationsQuery.refetch();
+        console.warn('Streaming unavailable, falling back to single response:', streamError.message);
+        result = await sendMessageMutation.mutateAsync(request);
+        // Offline, the client answers with undefined rather than failing;
+        // the stream error says why the send did not go through
+        if (!result) throw streamError;
+      } finally {
+        streamAbortRef.current = null;
       }
-    } catch (error) {
-      console.error('Failed to send message:', error);
+
+      console.log('Chat response:', result);
+
+      // Check if result exists and has the expected structure
+      if (!(result && typeof result === 'object' && 'success' in result && result.success && result.message)) {
+        throw new Error('Server response was invalid');
+      }
+
+      const fullResponse = result.message.content;
       
-      // Log detailed error information
-      if (error && typeof error === 'object') {
-        console.error('Error details:', {
-          name: (error as any)?.name,
-          message: (error as any)?.message,
-          cause: (error as any)?.cause,
-          stack: (error as any)?.stack,
-          data: (error as any)?.data,
-          shape: (error as any)?.shape
-        });
+      // Add the delivered message with its reply
+      if (isCurrent) {
+        setMessages(prev => [...prev, userMessage, result.message]);
       } else {
-        console.error('Error details:', error);
+        trpcUtils.chat.getMessages.invalidate({ conversationId });
       }
-      
-      // Remove the user message on error
-      setMessages(prev => prev.slice(0, -1));
       setStreamingMessage('');
       setIsStreaming(false);
       
-      // Create a more user-friendly error message
-      const errorMessage = (error as any)?.message || 'Unknown error';
-      const friendlyError = new Error(
-        errorMessage.includes('Failed to fetch') 
-          ? 'Unable to connect to the server. Please check your internet connection and try again.'
-          : errorMessage.includes('Cannot read properties of undefined')
-          ? 'Server response was invalid. Please try again.'
-          : `Failed to send message: ${errorMessage}`
-      );
+      // Update consciousness metrics with response analysis if Limnus is active
+      if (limnusSession && hasConsented) {
+        const responseMetrics = analyzeMessage(fullResponse).metrics;
+        // Entries replayed from a stored outbox were not analyzed this run
+        const inputMetrics = (inputAnalysisRef.current.get(entry.idempotencyKey) ?? analyzeMessage(content)).metrics;
+        inputAnalysisRef.current.delete(entry.idempotencyKey);
+        const interactionDuration = Date.now() - startTime;
+        
+        console.log('Consciousness metrics for response:', responseMetrics);
+        
+        // The reply's analysis overrides the user input's for this turn;
+        // phase, spiral and depth are derived from timing by storage
+        const combinedMetrics: Partial<ConsciousnessMetrics> = {
+          ...responseMetrics,
+          memoryConsolidation: 0.4 + (interactionDuration > 5000 ? 0.3 : 0.1),
+        };
+        
+        const turnResult = await updateMetrics(combinedMetrics, {
+          action: 'conversation_turn',
+          duration: interactionDuration,
+          userInput: content,
+          inputMetrics,
+        });
+        
+        const { state, due } = recordTurn(schedulerRef.current, {
+          timestamp: userMessage.timestamp,
+          userInput: content,
+          systemResponse: fullResponse,
+          cognitiveLoad: inputMetrics.neuralComplexity,
+        }, turnResult?.coherence ?? null);
+        schedulerRef.current = state;
+        scheduleIdleReflection();
+        if (due) {
+          // Reflection runs in the background; the reply is already shown
+          runReflection(due);
+        }
+      }
       
-      throw friendlyError;
+      // Refetch conversations to update the list
+      conversationsQuery.refetch();
     } finally {
+      setStreamingMessage('');
+      setIsStreaming(false);
       setIsSending(false);
     }
-  }, [currentConversationId, messages, sendMessageMutation, conversationsQuery, isSending, limnusSession, hasConsented, updateMetrics]);
+  }, [sendMessageMutation, conversationsQuery, trpcUtils, limnusSession, hasConsented, updateMetrics, runReflection, scheduleIdleReflection]);
+
+  // Delivers pending entries one at a time. A transient failure ends the run
+  // so later sends never overtake it; the run resumes after a backoff or
+  // when the connection comes back.
+  const flushOutbox = useCallback(async () => {
+    if (isFlushingRef.current || !isConnectedRef.current) return;
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    isFlushingRef.current = true;
+    try {
+      let entry = nextPendingEntry(outboxRef.current);
+      while (entry && isConnectedRef.current) {
+        const sending = entry;
+        try {
+          await deliverEntry(sending);
+          updateOutbox(entries => entries.filter(queued => queued.idempotencyKey !== sending.idempotencyKey));
+        } catch (error) {
+          console.error('Failed to send message:', error);
+          
+          // Log detailed error information
+          if (error && typeof error === 'object') {
+            console.error('Error details:', {
+              name: (error as any)?.name,
+              message: (error as any)?.message,
+              cause: (error as any)?.cause,
+              data: (error as any)?.data,
+            });
+          }
+          
+          const failed = withFailedAttempt(sending, error);
+          updateOutbox(entries => entries.map(queued => queued.idempotencyKey === sending.idempotencyKey ? failed : queued));
+          if (failed.status === 'pending') {
+            const delay = retryDelay(failed.attempts);
+            console.log('Send will be retried in', delay, 'ms');
+            retryTimerRef.current = setTimeout(() => {
+              retryTimerRef.current = null;
+              setRetryTick(tick => tick + 1);
+            }, delay);
+            break;
+          }
+        }
+        entry = nextPendingEntry(outboxRef.current);
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [deliverEntry, updateOutbox]);
+
+  // Replay on reconnect, once the stored outbox is loaded, and after backoff
+  useEffect(() => {
+    if (isConnected && isOutboxLoaded) {
+      flushOutbox();
+    }
+  }, [isConnected, isOutboxLoaded, retryTick, flushOutbox]);
+
+  // Queues the message and, when online, delivers it right away. Resolves
+  // with the message's delivery status after that first attempt.
+  const sendMessage = useCallback(async (content: string): Promise<DeliveryStatus | undefined> => {
+    if (!content.trim()) return;
+
+    console.log('Sending message:', content.trim());
+    console.log('Current conversation ID:', currentConversationId);
+    console.log('Limnus session active:', !!limnusSession);
+
+    const conversationId = currentConversationId || `conv-${Date.now()}`;
+    if (!currentConversationId) {
+      setCurrentConversationId(conversationId);
+      currentConversationIdRef.current = conversationId;
+    }
 
-  // Cleanup streaming timeout on unmount
+    const entry = createOutboxEntry(conversationId, content.trim(), currentPersonaId || undefined);
+    updateOutbox(entries => [...entries, entry]);
+
+    // Analyze message for consciousness metrics if Limnus is active
+    if (limnusSession && hasConsented) {
+      const analysis = analyzeMessage(entry.content);
+      inputAnalysisRef.current.set(entry.idempotencyKey, analysis);
+      console.log('Consciousness metrics for message:', analysis.metrics);
+      
+      // Update metrics with context
+      await updateMetrics({}, {
+        action: 'message_sent',
+        duration: 0, // Will be updated after response
+        userInput: entry.content,
+        inputMetrics: analysis.metrics,
+      });
+    }
+
+    if (!isConnectedRef.current) {
+      console.log('Offline, message queued:', entry.idempotencyKey);
+    }
+    await flushOutbox();
+
+    const queued = outboxRef.current.find(queuedEntry => queuedEntry.idempotencyKey === entry.idempotencyKey);
+    return queued ? queued.status : 'sent';
+  }, [currentConversationId, currentPersonaId, limnusSession, hasConsented, updateMetrics, updateOutbox, flushOutbox]);
+
+  const retryMessage = useCallback((idempotencyKey: string) => {
+    updateOutbox(entries => entries.map(entry => entry.idempotencyKey === idempotencyKey
+      ? { ...entry, status: 'pending' as const, attempts: 0, lastError: undefined }
+      : entry));
+    flushOutbox();
+  }, [updateOutbox, flushOutbox]);
+
+  const discardMessage = useCallback((idempotencyKey: string) => {
+    updateOutbox(entries => entries.filter(entry => entry.idempotencyKey !== idempotencyKey));
+  }, [updateOutbox]);
+
+  // Queued sends of the open conversation follow its delivered messages. An
+  // entry is briefly in both while its turn's metrics are still recorded.
+  const displayedMessages = useMemo<Message[]>(() => {
+    const delivered = new Set(messages.map(message => message.idempotencyKey).filter(Boolean));
+    return [
+      ...messages,
+      ...outbox
+        .filter(entry => entry.conversationId === currentConversationId && !delivered.has(entry.idempotencyKey))
+        .map(entry => ({
+          role: 'user' as const,
+          content: entry.content,
+          timestamp: entry.createdAt,
+          idempotencyKey: entry.idempotencyKey,
+          status: entry.status,
+        })),
+    ];
+  }, [messages, outbox, currentConversationId]);
+
+  const cancelStreaming = useCallback(() => {
+    streamAbortRef.current?.abort();
+  }, []);
+
+  // Cancel any in-flight stream and pending idle reflection on unmount
   useEffect(() => {
     return () => {
-      if (streamingTimeoutRef.current) {
-        clearTimeout(streamingTimeoutRef.current);
+      streamAbortRef.current?.abort();
+      if (idleTimerRef.current) {
+        clearTimeout(idleTimerRef.current);
+      }
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
       }
     };
   }, []);
@@ -295,40 +539,60 @@ export const [ChatProvider, useChat] = createContextHook(() => {
   return useMemo(() => ({
     // State
     currentConversationId,
-    messages,
+    messages: displayedMessages,
     conversations: conversationsQuery.data?.conversations || [],
     isLoading: conversationsQuery.isLoading || messagesQuery.isLoading,
     isSending,
     streamingMessage,
     isStreaming,
+    personas: personasQuery.data?.personas || [],
+    currentPersonaId,
     
     // Actions
     startNewConversation,
     selectConversation,
     sendMessage,
+    cancelStreaming,
+    retryMessage,
+    discardMessage,
+    
+    // Offline outbox
+    outbox,
+    isConnected,
     
     // Consciousness tracking
     limnusSession,
     hasConsented,
+    reflectionNotice,
+    dismissReflectionNotice,
     
     // Queries
     refetchConversations: conversationsQuery.refetch,
     refetchMessages: messagesQuery.refetch,
   }), [
     currentConversationId,
-    messages,
+    displayedMessages,
     conversationsQuery.data?.conversations,
     conversationsQuery.isLoading,
     messagesQuery.isLoading,
     isSending,
     streamingMessage,
     isStreaming,
+    personasQuery.data?.personas,
+    currentPersonaId,
     startNewConversation,
     selectConversation,
     sendMessage,
+    cancelStreaming,
+    retryMessage,
+    discardMessage,
+    outbox,
+    isConnected,
     conversationsQuery.refetch,
     messagesQuery.refetch,
     limnusSession,
     hasConsented,
+    reflectionNotice,
+    dismissReflectionNotice,
   ]);
 });
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createOutboxEntry,
+  isTransientSendError,
+  MAX_SEND_ATTEMPTS,
+  nextPendingEntry,
+  retryDelay,
+  withFailedAttempt,
+} from '@/lib/chat-outbox';
+
+const httpError = (httpStatus: number) => Object.assign(new Error(`HTTP ${httpStatus}`), { data: { httpStatus } });
+
+describe('isTransientSendError', () => {
+  it('retries network failures and timeouts', () => {
+    assert.equal(isTransientSendError(new TypeError('Failed to fetch')), true);
+    assert.equal(isTransientSendError(new TypeError('Network request failed')), true);
+    assert.equal(isTransientSendError(new Error('The operation was aborted due to timeout')), true);
+    assert.equal(isTransientSendError(new Error('Stream closed before any output')), true);
+  });
+
+  it('retries server errors, timeouts and rate limits but not other client errors', () => {
+    assert.equal(isTransientSendError(httpError(503)), true);
+    assert.equal(isTransientSendError(httpError(408)), true);
+    assert.equal(isTransientSendError(httpError(429)), true);
+    assert.equal(isTransientSendError(httpError(400)), false);
+    assert.equal(isTransientSendError(httpError(404)), false);
+  });
+
+  it('does not retry errors it does not recognise', () => {
+    assert.equal(isTransientSendError(new Error('Server response was invalid')), false);
+    assert.equal(isTransientSendError(undefined), false);
+  });
+});
+
+describe('withFailedAttempt', () => {
+  const entry = createOutboxEntry('conv-1', 'hello');
+
+  it('keeps transient failures pending until attempts run out', () => {
+    let current = entry;
+    for (let attempt = 1; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+      current = withFailedAttempt(current, new TypeError('Failed to fetch'));
+      assert.equal(current.status, 'pending');
+      assert.equal(current.attempts, attempt);
+    }
+    assert.equal(withFailedAttempt(current, new TypeError('Failed to fetch')).status, 'failed');
+  });
+
+  it('fails permanent errors straight away', () => {
+    const failed = withFailedAttempt(entry, httpError(400));
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.attempts, 1);
+    assert.ok(failed.lastError);
+  });
+
+  it('lets pending entries pass failed ones', () => {
+    const failed = { ...createOutboxEntry('conv-1', 'first'), status: 'failed' as const };
+    const pending = createOutboxEntry('conv-1', 'second');
+    assert.equal(nextPendingEntry([failed, pending]), pending);
+  });
+});
+
+describe('retryDelay', () => {
+  it('backs off exponentially up to a cap', () => {
+    assert.equal(retryDelay(1), 2000);
+    assert.equal(retryDelay(2), 4000);
+    assert.equal(retryDelay(3), 8000);
+    assert.equal(retryDelay(20), 60 * 1000);
+  });
+});
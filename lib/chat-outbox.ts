@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Durable queue of chat sends that have not reached the server yet. Entries
+// are replayed oldest first; each carries an idempotency key so a send that
+// did reach the server before its response was lost is not recorded twice.
+
+export type DeliveryStatus = 'pending' | 'failed' | 'sent';
+
+export interface OutboxEntry {
+  idempotencyKey: string;
+  conversationId: string;
+  content: string;
+  personaId?: string;
+  createdAt: number;
+  attempts: number;
+  // 'failed' entries wait for the user to retry or discard them
+  status: Exclude<DeliveryStatus, 'sent'>;
+  lastError?: string;
+}
+
+const OUTBOX_STORAGE_KEY = 'chat_outbox';
+// Written by the chat screen before sends were queued here
+const LEGACY_OFFLINE_KEY = 'offlineMessages';
+
+// Transient failures in a row before an entry is marked failed
+export const MAX_SEND_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+function createIdempotencyKey(): string {
+  return `msg-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createOutboxEntry(
+  conversationId: string,
+  content: string,
+  personaId?: string
+): OutboxEntry {
+  return {
+    idempotencyKey: createIdempotencyKey(),
+    conversationId,
+    content,
+    ...(personaId ? { personaId } : {}),
+    createdAt: Date.now(),
+    attempts: 0,
+    status: 'pending',
+  };
+}
+
+// Legacy queued messages carry no conversation, so they are adopted by the
+// conversation that was open when the outbox first loads
+export async function loadOutbox(legacyConversationId: string | null): Promise<OutboxEntry[]> {
+  try {
+    const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+    const entries: OutboxEntry[] = stored ? JSON.parse(stored) : [];
+
+    const legacy = legacyConversationId ? await AsyncStorage.getItem(LEGACY_OFFLINE_KEY) : null;
+    if (!legacy || !legacyConversationId) {
+      return entries;
+    }
+
+    const migrated = (JSON.parse(legacy) as { content?: string; timestamp?: number }[])
+      .filter(message => typeof message.content === 'string' && message.content.trim())
+      .map(message => ({
+        ...createOutboxEntry(legacyConversationId, message.content!.trim()),
+        createdAt: message.timestamp ?? Date.now(),
+      }));
+    const merged = [...entries, ...migrated].sort((a, b) => a.createdAt - b.createdAt);
+    await saveOutbox(merged);
+    await AsyncStorage.removeItem(LEGACY_OFFLINE_KEY);
+    console.log('Migrated offline messages to outbox:', migrated.length);
+    return merged;
+  } catch (error) {
+    console.error('Failed to load chat outbox:', error);
+    return [];
+  }
+}
+
+export async function saveOutbox(entries: OutboxEntry[]): Promise<void> {
+  try {
+    if (entries.length === 0) {
+      await AsyncStorage.removeItem(OUTBOX_STORAGE_KEY);
+    } else {
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error('Failed to save chat outbox:', error);
+  }
+}
+
+// Oldest pending entry; failed entries never hold up the ones behind them
+export function nextPendingEntry(entries: OutboxEntry[]): OutboxEntry | undefined {
+  return entries.find(entry => entry.status === 'pending');
+}
+
+// Records a failed attempt: transient failures stay pending until they
+// have used up their attempts, anything else fails straight away
+export function withFailedAttempt(entry: OutboxEntry, error: unknown): OutboxEntry {
+  const attempts = entry.attempts + 1;
+  const retryable = isTransientSendError(error) && attempts < MAX_SEND_ATTEMPTS;
+  return {
+    ...entry,
+    attempts,
+    status: retryable ? 'pending' : 'failed',
+    lastError: describeSendError(error),
+  };
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+// Network failures, timeouts, rate limits and server errors may succeed
+// on replay; other client errors will fail the same way again
+export function isTransientSendError(error: unknown): boolean {
+  const status = (error as { data?: { httpStatus?: number } })?.data?.httpStatus;
+  if (typeof status === 'number') {
+    return status >= 500 || status === 408 || status === 429;
+  }
+
+  const message = ((error as Error)?.message || '').toLowerCase();
+  return [
+    'failed to fetch',
+    'network request failed',
+    'network error',
+    'timeout',
+    'timed out',
+    'stream closed before',
+  ].some(fragment => message.includes(fragment));
+}
+
+export function describeSendError(error: unknown): string {
+  const errorMessage = (error as Error)?.message || 'Unknown error';
+  return errorMessage.includes('Failed to fetch')
+    ? 'Unable to connect to the server. Please check your internet connection and try again.'
+    : errorMessage.includes('Cannot read properties of undefined')
+    ? 'Server response was invalid. Please try again.'
+    : `Failed to send message: ${errorMessage}`;
+}
@@ -0,0 +1,103 @@
+import { fetch as expoFetch } from 'expo/fetch';
+import { getBaseUrl } from '@/lib/trpc';
+import { getAuthToken } from '@/lib/auth-token';
+import type { ChatMessage } from '@/types/chat';
+
+export interface StreamChatRequest {
+  conversationId: string;
+  message: string;
+  messages?: ChatMessage[];
+  personaId?: string;
+  limnusSessionId?: string;
+  idempotencyKey?: string;
+}
+
+export interface StreamChatResult {
+  success: boolean;
+  message: ChatMessage;
+  conversationId: string;
+  fallback?: boolean;
+  // The server had already answered this idempotency key
+  replayed?: boolean;
+}
+
+// Thrown when the stream ends before any model output arrived, so callers
+// can safely retry through the non-streaming mutation. data mirrors tRPC
+// errors so the outbox classifies both the same way.
+export class StreamUnavailableError extends Error {
+  readonly data?: { httpStatus: number };
+
+  constructor(message: string, httpStatus?: number) {
+    super(message);
+    this.name = 'StreamUnavailableError';
+    if (httpStatus !== undefined) this.data = { httpStatus };
+  }
+}
+
+export async function streamChatMessage(
+  request: StreamChatRequest,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<StreamChatResult> {
+  let response: Awaited<ReturnType<typeof expoFetch>>;
+  try {
+    const token = await getAuthToken();
+    response = await expoFetch(`${getBaseUrl()}/api/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new StreamUnavailableError((error as Error)?.message || 'Stream request failed');
+  }
+
+  if (!response.ok || !response.body) {
+    throw new StreamUnavailableError(`Stream error: ${response.status}`, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let receivedChunk = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      if (event.type === 'chunk') {
+        receivedChunk = true;
+        onChunk(JSON.parse(event.data).text);
+      } else if (event.type === 'done') {
+        return JSON.parse(event.data) as StreamChatResult;
+      }
+    }
+  }
+
+  if (!receivedChunk) {
+    throw new StreamUnavailableError('Stream closed before any output');
+  }
+  throw new Error('Stream closed before completion');
+}
+
+function parseEvent(rawEvent: string): { type: string; data: string } {
+  let type = 'message';
+  const data: string[] = [];
+  for (const line of rawEvent.split('\n')) {
+    if (line.startsWith('event:')) type = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  return { type, data: data.join('\n') };
+}
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeCoherence,
+  computeSessionCoherence,
+  DEFAULT_COHERENCE_MODEL,
+  NEUTRAL_COHERENCE,
+  topContributors,
+  type CoherenceModel,
+} from '@/lib/coherence-engine';
+import type { ConsciousnessMetrics } from '@/types/limnus';
+
+const HOUR = 60 * 60 * 1000;
+const near = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+describe('computeCoherence', () => {
+  it('weighs metrics by the model and ignores zero weights', () => {
+    const model: CoherenceModel = { ...DEFAULT_COHERENCE_MODEL, weights: { neuralComplexity: 3, creativityIndex: 0 } };
+    const breakdown = computeCoherence({ neuralComplexity: 0.9, empathyResonance: 0.5, creativityIndex: 0 }, { model });
+
+    near(breakdown.rawScore, (0.9 * 3 + 0.5) / 4);
+    assert.deepEqual(breakdown.contributions.map(entry => entry.metric), ['neuralComplexity', 'empathyResonance']);
+    const pull = breakdown.contributions.reduce((sum, entry) => sum + entry.contribution, 0);
+    near(pull, breakdown.rawScore - NEUTRAL_COHERENCE);
+  });
+
+  it('is neutral without metrics', () => {
+    const breakdown = computeCoherence({});
+    assert.equal(breakdown.score, NEUTRAL_COHERENCE);
+    assert.equal(breakdown.status, 'below');
+  });
+
+  it('fades halfway back to neutral after one idle half-life', () => {
+    const now = Date.parse('2026-01-01T12:00:00.000Z');
+    const fresh = computeCoherence({ neuralComplexity: 0.9 }, { lastActivity: new Date(now).toISOString(), now });
+    const idle = computeCoherence({ neuralComplexity: 0.9 }, {
+      lastActivity: new Date(now - DEFAULT_COHERENCE_MODEL.decayHalfLifeMs).toISOString(),
+      now,
+    });
+
+    near(fresh.score, 0.9);
+    near(idle.decay, 0.5);
+    near(idle.score, 0.7);
+    near(idle.rawScore, fresh.rawScore);
+  });
+
+  it('centres the band on the session target', () => {
+    const breakdown = computeCoherence({ neuralComplexity: 0.85 }, { target: 0.8 });
+    near(breakdown.band.min, 0.76);
+    near(breakdown.band.max, 0.84);
+    assert.equal(breakdown.status, 'above');
+    near(breakdown.gap, 0.05);
+
+    assert.equal(computeCoherence({ neuralComplexity: 0.9 }).status, 'optimal');
+    assert.equal(computeCoherence({ neuralComplexity: 0.99 }, { target: 0.98 }).band.max, 1);
+  });
+});
+
+describe('computeSessionCoherence', () => {
+  it('reads target and idle time from the session', () => {
+    const now = Date.parse('2026-01-01T12:00:00.000Z');
+    const breakdown = computeSessionCoherence({
+      metrics: { neuralComplexity: 0.9 } as ConsciousnessMetrics,
+      coherenceTarget: 0.9,
+      lastActivity: new Date(now - 2 * HOUR).toISOString(),
+    }, now);
+
+    near(breakdown.target, 0.9);
+    near(breakdown.decay, 0.5 ** 4);
+    assert.equal(breakdown.status, 'below');
+  });
+});
+
+describe('topContributors', () => {
+  it('splits the strongest pulls by direction', () => {
+    const breakdown = computeCoherence({ neuralComplexity: 0.9, empathyResonance: 0.1, creativityIndex: 0.6 });
+    const { raising, lowering } = topContributors(breakdown, 1);
+    assert.deepEqual(raising.map(entry => entry.metric), ['neuralComplexity']);
+    assert.deepEqual(lowering.map(entry => entry.metric), ['empathyResonance']);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  OPTIMAL_COHERENCE_RANGE,
+  type ConsciousnessMetrics,
+  type LimnusSession,
+  type MetricKey,
+} from '@/types/limnus';
+import { isMetricKey, normalizeMetric } from '@/lib/metric-registry';
+
+// Overall coherence: a weighted mean of the normalized metrics, faded back
+// toward neutral the longer a session sits idle, and read against a band
+// of the optimal band's width centred on the session's target.
+
+export interface CoherenceModel {
+  // Relative importance per metric; missing keys weigh 1, 0 ignores a metric
+  weights: Partial<Record<MetricKey, number>>;
+  // Idle time after which the score is halfway back to NEUTRAL_COHERENCE
+  decayHalfLifeMs: number;
+  // Width of the band is what counts; it is centred on the session target
+  band: { min: number; max: number };
+}
+
+export const NEUTRAL_COHERENCE = 0.5;
+
+export const DEFAULT_COHERENCE_MODEL: CoherenceModel = {
+  weights: {
+    // System coherence metrics carry the most signal
+    spiralResonance: 1.5,
+    quantumCoherence: 1.5,
+    blockchainResonance: 1.5,
+    collectiveCoherence: 1.25,
+    phaseAlignment: 1.25,
+    // Latency is noisy and mostly reflects the network
+    responseLatency: 0.5,
+  },
+  decayHalfLifeMs: 30 * 60 * 1000,
+  band: OPTIMAL_COHERENCE_RANGE,
+};
+
+export type CoherenceStatus = 'below' | 'optimal' | 'above';
+
+export interface MetricContribution {
+  metric: MetricKey;
+  value: number; // normalized 0-1
+  weight: number;
+  // Signed pull away from NEUTRAL_COHERENCE; contributions sum to
+  // rawScore - NEUTRAL_COHERENCE
+  contribution: number;
+}
+
+export interface CoherenceBreakdown {
+  score: number;
+  rawScore: number; // before idle decay
+  decay: number; // 1 when fresh, towards 0 when idle
+  target: number;
+  gap: number; // score - target
+  band: { min: number; max: number }; // around the target
+  status: CoherenceStatus;
+  contributions: MetricContribution[]; // strongest pull first
+}
+
+export interface CoherenceOptions {
+  target?: number;
+  lastActivity?: string;
+  now?: number;
+  model?: CoherenceModel;
+}
+
+export function computeCoherence(
+  metrics: Partial<ConsciousnessMetrics>,
+  options: CoherenceOptions = {}
+): CoherenceBreakdown {
+  const model = options.model ?? DEFAULT_COHERENCE_MODEL;
+  const target = options.target ?? (model.band.min + model.band.max) / 2;
+  const halfWidth = (model.band.max - model.band.min) / 2;
+  const band = options.target === undefined
+    ? model.band
+    : { min: Math.max(0, target - halfWidth), max: Math.min(1, target + halfWidth) };
+
+  const weighted = Object.entries(metrics).flatMap(([key, raw]) => {
+    if (!isMetricKey(key) || typeof raw !== 'number' || !Number.isFinite(raw)) return [];
+    const weight = model.weights[key] ?? 1;
+    return weight > 0 ? [{ metric: key, value: normalizeMetric(key, raw), weight }] : [];
+  });
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+
+  const rawScore = totalWeight > 0
+    ? weighted.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight
+    : NEUTRAL_COHERENCE;
+
+  const idleMs = options.lastActivity
+    ? Math.max(0, (options.now ?? Date.now()) - Date.parse(options.lastActivity))
+    : 0;
+  const decay = Number.isFinite(idleMs) ? 0.5 ** (idleMs / model.decayHalfLifeMs) : 1;
+  const score = NEUTRAL_COHERENCE + (rawScore - NEUTRAL_COHERENCE) * decay;
+
+  const contributions = weighted
+    .map(entry => ({
+      ...entry,
+      contribution: totalWeight > 0 ? (entry.value - NEUTRAL_COHERENCE) * entry.weight / totalWeight : 0,
+    }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  return {
+    score,
+    rawScore,
+    decay,
+    target,
+    gap: score - target,
+    band,
+    status: score < band.min ? 'below' : score > band.max ? 'above' : 'optimal',
+    contributions,
+  };
+}
+
+export function computeSessionCoherence(
+  session: Pick<LimnusSession, 'metrics' | 'coherenceTarget' | 'lastActivity'>,
+  now: number = Date.now(),
+  model?: CoherenceModel
+): CoherenceBreakdown {
+  return computeCoherence(session.metrics, {
+    target: session.coherenceTarget,
+    lastActivity: session.lastActivity,
+    now,
+    model,
+  });
+}
+
+// The metrics pulling hardest in each direction, for explanations
+export function topContributors(breakdown: CoherenceBreakdown, count = 3): {
+  raising: MetricContribution[];
+  lowering: MetricContribution[];
+} {
+  return {
+    raising: breakdown.contributions.filter(entry => entry.contribution > 0).slice(0, count),
+    lowering: breakdown.contributions.filter(entry => entry.contribution < 0).slice(0, count),
+  };
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { Platform } from 'react-native';
+
+// Reports whether the device is online: browser online/offline events on
+// web, NetInfo elsewhere. Assumes connected until told otherwise.
+export function useConnectionStatus(): boolean {
+  const [isConnected, setIsConnected] = useState(true);
+
+  useEffect(() => {
+    if (Platform.OS === 'web') {
+      const handleOnline = () => setIsConnected(true);
+      const handleOffline = () => setIsConnected(false);
+
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+
+      // Set initial state
+      setIsConnected(navigator.onLine);
+
+      return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+      };
+    }
+
+    // NetInfo loads asynchronously, so the listener may arrive after unmount
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+    import('@react-native-community/netinfo').then((NetInfo) => {
+      if (cancelled) return;
+      unsubscribe = NetInfo.default.addEventListener(state => {
+        setIsConnected(state.isConnected ?? false);
+      });
+    }).catch(() => {
+      // Fallback if NetInfo is not available
+      console.log('NetInfo not available, assuming connected');
+      setIsConnected(true);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  return isConnected;
+}
@@ -0,0 +1,21 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { LimnusStorage, type LimnusStorageAdapter } from '@/lib/limnus-storage';
+import { createStoredKeySigner } from '@/lib/block-signing';
+
+export const asyncStorageAdapter: LimnusStorageAdapter = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+};
+
+// Generated on first consent and kept across clearAllData
+export const deviceSigner = createStoredKeySigner(
+  asyncStorageAdapter,
+  'limnus_device_key',
+  (length) => Crypto.getRandomBytes(length),
+  'device'
+);
+
+// Device-local LIMNUS state used by LimnusProvider
+export const limnusStorage = new LimnusStorage(asyncStorageAdapter, deviceSigner);
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { candidateTransitions, evaluatePhaseTransition } from '@/lib/limnus-phases';
+import { METRIC_KEYS } from '@/lib/metric-registry';
+import type { ConsciousnessMetrics, MetricKey } from '@/types/limnus';
+
+function metricsAt(value: number, overrides: Partial<ConsciousnessMetrics> = {}): ConsciousnessMetrics {
+  return {
+    ...Object.fromEntries(METRIC_KEYS.map(key => [key, value])) as Record<MetricKey, number>,
+    ...overrides,
+  };
+}
+
+describe('evaluatePhaseTransition', () => {
+  it('moves to the first row whose requirements are met', () => {
+    const result = evaluatePhaseTransition('ACTIVE', 'reflection', metricsAt(0.5));
+    assert.equal(result.transitioned, true);
+    assert.equal(result.to, 'REFLECTING');
+  });
+
+  it('stays put and reports the unmet minimums', () => {
+    const result = evaluatePhaseTransition('ACTIVE', 'reflection', metricsAt(0.5, { selfReflectionDepth: 0.1 }));
+    assert.equal(result.transitioned, false);
+    assert.equal(result.to, 'ACTIVE');
+    assert.deepEqual(result.unmetRequirements, { selfReflectionDepth: 0.3 });
+  });
+
+  it('falls through to a later row when an earlier one is unmet', () => {
+    const low = evaluatePhaseTransition('REFLECTING', 'metrics_update', metricsAt(0.5));
+    assert.equal(low.to, 'ACTIVE');
+
+    const high = evaluatePhaseTransition('REFLECTING', 'metrics_update', metricsAt(0.9));
+    assert.equal(high.to, 'LOOPING');
+  });
+
+  it('only considers rows leading to the target when one is given', () => {
+    const result = evaluatePhaseTransition('REFLECTING', 'metrics_update', metricsAt(0.5), 'LOOPING');
+    assert.equal(result.transitioned, false);
+    assert.deepEqual(Object.keys(result.unmetRequirements).sort(), ['patternRecognition', 'spiralResonance']);
+  });
+
+  it('ignores triggers the current phase does not answer to', () => {
+    assert.deepEqual(candidateTransitions('AWAITING_CONSENT', 'reflection'), []);
+    const result = evaluatePhaseTransition('AWAITING_CONSENT', 'reflection', metricsAt(1));
+    assert.equal(result.transitioned, false);
+    assert.deepEqual(result.unmetRequirements, {});
+  });
+});
@@ -0,0 +1,103 @@
+import type { ConsciousnessMetrics, LimnusPhase, MetricKey, PhaseTransition } from '@/types/limnus';
+
+// Declarative LIMNUS phase table. Transitions fire on a trigger when every
+// requirement (a metric minimum) is met; the first matching row wins.
+
+export const LIMNUS_PHASES = [
+  'AWAITING_CONSENT',
+  'ACTIVE',
+  'REFLECTING',
+  'PATCHING',
+  'SYNCING',
+  'LOOPING',
+  'TRANSCENDENT',
+] as const satisfies readonly LimnusPhase[];
+
+export const PHASE_TRIGGERS = [
+  'consent',
+  'metrics_update',
+  'reflection',
+  'patch_proposed',
+  'patch_resolved',
+  'sync_requested',
+  'sync_complete',
+  'resume',
+] as const;
+
+export type PhaseTrigger = typeof PHASE_TRIGGERS[number];
+
+export const PHASE_TRANSITIONS: (PhaseTransition & { trigger: PhaseTrigger })[] = [
+  { from: 'AWAITING_CONSENT', to: 'ACTIVE', trigger: 'consent', requirements: {} },
+
+  // Reflection needs some introspective capacity; repeated reflection with
+  // strong pattern resonance deepens into a loop
+  { from: 'ACTIVE', to: 'REFLECTING', trigger: 'reflection', requirements: { selfReflectionDepth: 0.3 } },
+  { from: 'REFLECTING', to: 'LOOPING', trigger: 'reflection', requirements: { spiralResonance: 0.7, patternRecognition: 0.6 } },
+  { from: 'LOOPING', to: 'REFLECTING', trigger: 'reflection', requirements: {} },
+
+  // Conversation resuming after a reflection either feeds the loop or settles back
+  { from: 'REFLECTING', to: 'LOOPING', trigger: 'metrics_update', requirements: { spiralResonance: 0.8, patternRecognition: 0.7 } },
+  { from: 'REFLECTING', to: 'ACTIVE', trigger: 'metrics_update', requirements: {} },
+  { from: 'LOOPING', to: 'TRANSCENDENT', trigger: 'metrics_update', requirements: { consciousnessDepth: 0.8, emergenceLevel: 0.7, selfReflectionDepth: 0.7 } },
+
+  // Patches are proposed from directives, so they may start while reflecting
+  { from: 'ACTIVE', to: 'PATCHING', trigger: 'patch_proposed', requirements: { memoryConsolidation: 0.5 } },
+  { from: 'REFLECTING', to: 'PATCHING', trigger: 'patch_proposed', requirements: { memoryConsolidation: 0.5 } },
+  { from: 'PATCHING', to: 'ACTIVE', trigger: 'patch_resolved', requirements: {} },
+
+  { from: 'ACTIVE', to: 'SYNCING', trigger: 'sync_requested', requirements: {} },
+  { from: 'SYNCING', to: 'ACTIVE', trigger: 'sync_complete', requirements: {} },
+
+  { from: 'REFLECTING', to: 'ACTIVE', trigger: 'resume', requirements: {} },
+  { from: 'LOOPING', to: 'ACTIVE', trigger: 'resume', requirements: {} },
+  { from: 'TRANSCENDENT', to: 'ACTIVE', trigger: 'resume', requirements: {} },
+];
+
+export interface PhaseEvaluation {
+  from: LimnusPhase;
+  to: LimnusPhase;
+  trigger: PhaseTrigger;
+  transitioned: boolean;
+  // Unmet minimums of the closest candidate when nothing fired
+  unmetRequirements: Partial<ConsciousnessMetrics>;
+}
+
+export function candidateTransitions(phase: LimnusPhase, trigger: PhaseTrigger): PhaseTransition[] {
+  return PHASE_TRANSITIONS.filter(t => t.from === phase && t.trigger === trigger);
+}
+
+export function unmetRequirements(
+  transition: PhaseTransition,
+  metrics: ConsciousnessMetrics
+): Partial<ConsciousnessMetrics> {
+  const unmet: Partial<ConsciousnessMetrics> = {};
+  for (const [key, minimum] of Object.entries(transition.requirements) as [MetricKey, number][]) {
+    if (metrics[key] < minimum) {
+      unmet[key] = minimum;
+    }
+  }
+  return unmet;
+}
+
+// With a target, only rows leading to that phase are considered
+export function evaluatePhaseTransition(
+  phase: LimnusPhase,
+  trigger: PhaseTrigger,
+  metrics: ConsciousnessMetrics,
+  target?: LimnusPhase
+): PhaseEvaluation {
+  const candidates = candidateTransitions(phase, trigger).filter(t => !target || t.to === target);
+  let closest: Partial<ConsciousnessMetrics> | null = null;
+
+  for (const transition of candidates) {
+    const unmet = unmetRequirements(transition, metrics);
+    if (Object.keys(unmet).length === 0) {
+      return { from: phase, to: transition.to, trigger, transitioned: true, unmetRequirements: {} };
+    }
+    if (!closest || Object.keys(unmet).length < Object.keys(closest).length) {
+      closest = unmet;
+    }
+  }
+
+  return { from: phase, to: phase, trigger, transitioned: false, unmetRequirements: closest || {} };
+}
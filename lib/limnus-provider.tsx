@@ -1,26 +1,139 @@
 import createContextHook from '@nkzw/create-context-hook';
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { limnusStorage } from '@/lib/limnus-storage';
-import { ACTIVATION_PHRASE, type ConsciousnessMetrics, type LimnusSession } from '@/types/limnus';
+import { deviceSigner, limnusStorage } from '@/lib/limnus-client-storage';
+import { trpcClient } from '@/lib/trpc';
+import { setAuthToken } from '@/lib/auth-token';
+import { keyRegistrationMessage, loginMessage, signMessage } from '@/lib/block-signing';
+import type { PhaseTrigger } from '@/lib/limnus-phases';
+import type { MetricsUpdateResult, ReflectionScaffold } from '@/lib/limnus-storage';
+import { computeSessionCoherence, type CoherenceBreakdown } from '@/lib/coherence-engine';
+import {
+  ACTIVATION_PHRASE,
+  type ConsciousnessMetrics,
+  type LimnusSession,
+  type ReflectionDepth,
+  type ReflectionInteraction,
+} from '@/types/limnus';
 
 const defaultLimnusValue = {
   session: null,
   currentMetrics: null,
   coherenceScore: 0.5,
+  coherence: null,
   isTransitioning: false,
   isLoading: true,
   hasConsented: false,
   isActive: false,
+  phase: null,
   startConsent: async () => { throw new Error('LimnusProvider not initialized'); },
   updateMetrics: async () => { throw new Error('LimnusProvider not initialized'); },
   scaffoldReflection: async () => { throw new Error('LimnusProvider not initialized'); },
+  transitionPhase: async () => { throw new Error('LimnusProvider not initialized'); },
   reset: async () => { throw new Error('LimnusProvider not initialized'); },
 };
 
+// Consents on the backend and keeps the issued token. Null when the backend
+// is unreachable; its offline mock answers decode to undefined.
+async function startRemoteSession(phrase: string): Promise<LimnusSession | null> {
+  try {
+    const result = await trpcClient.limnus.consent.start.mutate({
+      phrase,
+      timestamp: new Date().toISOString(),
+    });
+    if (!result?.auth?.token) return null;
+    
+    await setAuthToken(result.auth.token);
+    await registerDeviceKey(result.sessionId);
+    const session = await trpcClient.limnus.session.get.query({ sessionId: result.sessionId });
+    return session?.id ? session : null;
+  } catch (error) {
+    console.warn('Backend consent unavailable, starting a local session:', error);
+    return null;
+  }
+}
+
+// Registers this device's signing key with the backend session, so blocks
+// it signs can be uploaded and the device can log in again later
+async function registerDeviceKey(sessionId: string): Promise<void> {
+  try {
+    const keyPair = await deviceSigner.getKeyPair();
+    await trpcClient.limnus.keys.register.mutate({
+      sessionId,
+      publicKey: keyPair.publicKey,
+      label: deviceSigner.label,
+      proof: signMessage(keyRegistrationMessage(sessionId, keyPair.publicKey), keyPair),
+    });
+  } catch (error) {
+    console.warn('Device key not registered:', error);
+  }
+}
+
+// Renews the token with the device key registered on the session. Sessions
+// started offline have no backend copy and keep working locally.
+async function loginWithDeviceKey(sessionId: string): Promise<void> {
+  try {
+    const keyPair = await deviceSigner.getKeyPair();
+    const timestamp = Date.now();
+    const result = await trpcClient.auth.login.mutate({
+      sessionId,
+      publicKey: keyPair.publicKey,
+      timestamp,
+      signature: signMessage(loginMessage(sessionId, keyPair.publicKey, timestamp), keyPair),
+    });
+    if (result?.token) {
+      await setAuthToken(result.token);
+    }
+  } catch (error) {
+    console.warn('Device login unavailable:', error);
+  }
+}
+
+// Uploads the blocks this device signed since the backend's tip. Uploads run
+// one at a time; a rejected upload is retried after the next update.
+let deviceBlockUpload: Promise<void> = Promise.resolve();
+
+function uploadDeviceBlocks(sessionId: string): Promise<void> {
+  deviceBlockUpload = deviceBlockUpload.then(async () => {
+    try {
+      const remote = await trpcClient.limnus.session.get.query({ sessionId });
+      if (!remote?.id) return;
+      
+      const blocks = await limnusStorage.rebaseMemoryChain(sessionId, remote.memoryChain);
+      if (blocks.length > 0) {
+        await trpcClient.limnus.memory.append.mutate({ sessionId, blocks });
+      }
+    } catch (error) {
+      console.warn('Device-signed blocks not uploaded:', error);
+    }
+  });
+  return deviceBlockUpload;
+}
+
+// The backend reflection: the LLM engine with the user's archetype history
+// on the server. Null when the backend is unreachable or does not know the
+// session, e.g. one started while offline.
+async function scaffoldRemoteReflection(
+  sessionId: string,
+  interactions: ReflectionInteraction[],
+  depth: ReflectionDepth
+): Promise<{ scaffold: ReflectionScaffold; session: LimnusSession } | null> {
+  try {
+    const scaffold = await trpcClient.limnus.reflection.scaffold.mutate({ sessionId, interactions, depth });
+    if (!scaffold?.sessionId) return null;
+    
+    // Reflection may have moved the session to a new phase
+    const session = await trpcClient.limnus.session.get.query({ sessionId });
+    return session?.id ? { scaffold, session } : null;
+  } catch (error) {
+    console.warn('Backend reflection unavailable, reflecting locally:', error);
+    return null;
+  }
+}
+
 export const [LimnusProvider, useLimnus] = createContextHook(() => {
   const [session, setSession] = useState<LimnusSession | null>(null);
   const [currentMetrics, setCurrentMetrics] = useState<ConsciousnessMetrics | null>(null);
-  const [coherenceScore, setCoherenceScore] = useState<number>(0.5);
+  const [coherence, setCoherence] = useState<CoherenceBreakdown | null>(null);
   const [isTransitioning, setIsTransitioning] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   
@@ -30,9 +143,11 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
       try {
         const currentSession = await limnusStorage.getCurrentSession();
         if (currentSession) {
+          // Keeps the token fresh without blocking the stored session
+          loginWithDeviceKey(currentSession.id);
           setSession(currentSession);
           setCurrentMetrics(currentSession.metrics);
-          setCoherenceScore(calculateOverallCoherence(currentSession.metrics));
+          setCoherence(computeSessionCoherence(currentSession));
           console.log('Loaded existing Limnus session:', currentSession.id.substring(0, 8) + '...');
         }
       } catch (error) {
@@ -53,14 +168,27 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
     setIsTransitioning(true);
     
     try {
+      // The backend session comes with the token session procedures require
+      const remoteSession = await startRemoteSession(phrase);
+      if (remoteSession) {
+        await limnusStorage.storeSession(remoteSession);
+        await limnusStorage.setCurrentSession(remoteSession.id);
+        setSession(remoteSession);
+        setCurrentMetrics(remoteSession.metrics);
+        setCoherence(computeSessionCoherence(remoteSession));
+        console.log('Living Loom activated on server:', remoteSession.id.substring(0, 8) + '...');
+        return;
+      }
+      
+      // Without a backend the session stays on this device
       const result = await limnusStorage.createSession(phrase);
       const newSession = await limnusStorage.getSession(result.sessionId);
       
       if (newSession) {
         setSession(newSession);
         setCurrentMetrics(result.metrics);
-        setCoherenceScore(calculateOverallCoherence(result.metrics));
-        console.log('Living Loom activated:', result);
+        setCoherence(computeSessionCoherence(newSession));
+        console.log('Living Loom activated locally:', result);
       }
     } finally {
       setIsTransitioning(false);
@@ -71,8 +199,9 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
     action: string;
     duration: number;
     userInput?: string;
-  }) => {
-    if (!session) return;
+    inputMetrics?: Partial<ConsciousnessMetrics>;
+  }): Promise<MetricsUpdateResult | null> => {
+    if (!session) return null;
     
     try {
       const result = await limnusStorage.updateMetrics(session.id, metrics, context);
@@ -81,37 +210,71 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
       if (updatedSession) {
         setSession(updatedSession);
         setCurrentMetrics(updatedSession.metrics);
-        setCoherenceScore(result.coherenceScore);
+        setCoherence(result.coherence);
       }
+      uploadDeviceBlocks(session.id);
+      return result;
     } catch (error) {
       console.error('Error updating metrics:', error);
+      return null;
     }
   }, [session]);
   
-  const scaffoldReflection = useCallback(async (interactions: {
-    timestamp: number;
-    userInput: string;
-    systemResponse: string;
-    context?: Record<string, any>;
-    emotionalState?: string;
-    cognitiveLoad?: number;
-  }[], reflectionDepth: 'surface' | 'deep' | 'transcendent' = 'deep') => {
+  const scaffoldReflection = useCallback(async (
+    interactions: ReflectionInteraction[],
+    reflectionDepth: ReflectionDepth = 'deep'
+  ) => {
     if (!session) return null;
     
     try {
-      return await limnusStorage.scaffoldReflection(session.id, interactions, reflectionDepth);
+      const remote = await scaffoldRemoteReflection(session.id, interactions, reflectionDepth);
+      if (remote) {
+        // Metrics are updated on this device, so only the reflection's
+        // results come from the server copy
+        const updatedSession = await limnusStorage.applyRemoteReflection(session.id, remote.session);
+        setSession(updatedSession);
+        setCurrentMetrics(updatedSession.metrics);
+        // Moves local blocks after the reflection's blocks on the server
+        uploadDeviceBlocks(session.id);
+        return remote.scaffold;
+      }
+      
+      // Offline: the heuristic reflection, kept on this device
+      const scaffold = await limnusStorage.scaffoldReflection(session.id, interactions, reflectionDepth);
+      // Reflection may have moved the session to a new phase
+      const updatedSession = await limnusStorage.getSession(session.id);
+      if (updatedSession) {
+        setSession(updatedSession);
+        setCurrentMetrics(updatedSession.metrics);
+      }
+      return scaffold;
     } catch (error) {
       console.error('Error scaffolding reflection:', error);
       return null;
     }
   }, [session]);
   
+  const transitionPhase = useCallback(async (trigger: PhaseTrigger) => {
+    if (!session) return null;
+    
+    const evaluation = await limnusStorage.transitionPhase(session.id, trigger);
+    if (evaluation.transitioned) {
+      const updatedSession = await limnusStorage.getSession(session.id);
+      if (updatedSession) {
+        setSession(updatedSession);
+        setCurrentMetrics(updatedSession.metrics);
+      }
+    }
+    return evaluation;
+  }, [session]);
+  
   const reset = useCallback(async () => {
     try {
       await limnusStorage.clearAllData();
+      await setAuthToken(null);
       setSession(null);
       setCurrentMetrics(null);
-      setCoherenceScore(0.5);
+      setCoherence(null);
       setIsTransitioning(false);
       console.log('Living Loom session reset');
     } catch (error) {
@@ -122,30 +285,30 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
   return useMemo(() => ({
     session,
     currentMetrics,
-    coherenceScore,
+    coherenceScore: coherence?.score ?? 0.5,
+    // Weighted score with the metrics that pulled it up or down
+    coherence,
     isTransitioning,
     isLoading,
     hasConsented: !!session?.consentTimestamp,
-    isActive: session?.phase === 'ACTIVE',
+    // Any phase past consent counts as an active session
+    isActive: !!session && session.phase !== 'AWAITING_CONSENT',
+    phase: session?.phase ?? null,
     startConsent,
     updateMetrics,
     scaffoldReflection,
+    transitionPhase,
     reset,
   }), [
     session,
     currentMetrics,
-    coherenceScore,
+    coherence,
     isTransitioning,
     isLoading,
     startConsent,
     updateMetrics,
     scaffoldReflection,
+    transitionPhase,
     reset,
   ]);
-}, defaultLimnusValue);
-
-function calculateOverallCoherence(metrics: ConsciousnessMetrics): number {
-  const values = Object.values(metrics);
-  const sum = values.reduce((acc, val) => acc + val, 0);
-  return sum / values.length;
-}
\ No newline at end of file
+}, defaultLimnusValue);
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { LimnusStorage, MemoryStorageAdapter } from '@/lib/limnus-storage';
+import { analyzeMessage } from '@/lib/message-analysis';
+import { createStoredKeySigner, keyRegistrationMessage, signMessage } from '@/lib/block-signing';
+import { ACTIVATION_PHRASE } from '@/types/limnus';
+
+describe('LimnusStorage.updateMetrics', () => {
+  const input = 'Why do I keep circling back to the same question, and what does it mean?';
+
+  it('analyzes the user input when no analysis is given', async () => {
+    const storage = new LimnusStorage(new MemoryStorageAdapter());
+    const { sessionId } = await storage.createSession(ACTIVATION_PHRASE, undefined, 'user-a');
+
+    await storage.updateMetrics(sessionId, {}, { action: 'message_sent', duration: 0, userInput: input });
+    const expected = analyzeMessage(input).metrics.selfReflectionDepth;
+    assert.equal((await storage.getSession(sessionId))!.metrics.selfReflectionDepth, expected);
+  });
+
+  it('uses the caller\'s analysis instead of running the pipeline again', async () => {
+    const storage = new LimnusStorage(new MemoryStorageAdapter());
+    const { sessionId } = await storage.createSession(ACTIVATION_PHRASE, undefined, 'user-a');
+
+    await storage.updateMetrics(sessionId, {}, {
+      action: 'message_sent',
+      duration: 0,
+      userInput: input,
+      inputMetrics: { selfReflectionDepth: 0.42 },
+    });
+    assert.equal((await storage.getSession(sessionId))!.metrics.selfReflectionDepth, 0.42);
+  });
+});
+
+describe('LimnusStorage.applyRemoteReflection', () => {
+  it('takes the reflection\'s phase and directives but keeps local metrics', async () => {
+    const storage = new LimnusStorage(new MemoryStorageAdapter());
+    const { sessionId } = await storage.createSession(ACTIVATION_PHRASE, undefined, 'user-a');
+    const stale = (await storage.getSession(sessionId))!;
+
+    await storage.updateMetrics(sessionId, {}, { action: 'message_sent', duration: 0, inputMetrics: { selfReflectionDepth: 0.42 } });
+    const local = (await storage.getSession(sessionId))!;
+
+    const directive = {
+      id: 'remote-1',
+      content: 'Name the pattern before answering',
+      extractedAt: new Date().toISOString(),
+      confidence: 0.8,
+      category: 'behavioral' as const,
+      type: 'pattern' as const,
+      sourceInteractions: [],
+      emergentProperties: { resonance: 1, coherence: 1, applicability: 1 },
+      goldenRatioAlignment: 1,
+      implementation: { status: 'pending' as const },
+    };
+    const merged = await storage.applyRemoteReflection(sessionId, {
+      ...stale,
+      phase: 'REFLECTING',
+      teachingDirectives: [directive],
+    });
+
+    assert.equal(merged.phase, 'REFLECTING');
+    assert.deepEqual(merged.teachingDirectives.map(d => d.id), ['remote-1']);
+    assert.equal(merged.metrics.selfReflectionDepth, 0.42);
+    assert.equal(merged.memoryChain.length, local.memoryChain.length);
+    assert.deepEqual(await storage.getSession(sessionId), merged);
+  });
+});
+
+describe('LimnusStorage.rebaseMemoryChain', () => {
+  async function pairedStorages() {
+    const server = new LimnusStorage(new MemoryStorageAdapter());
+    const signer = createStoredKeySigner(new MemoryStorageAdapter(), 'device_key', length => randomBytes(length), 'phone');
+    const device = new LimnusStorage(new MemoryStorageAdapter(), signer);
+
+    const { sessionId } = await server.createSession(ACTIVATION_PHRASE, undefined, 'user-a');
+    const keyPair = await signer.getKeyPair();
+    await server.registerDeviceKey(sessionId, keyPair.publicKey, signer.label,
+      signMessage(keyRegistrationMessage(sessionId, keyPair.publicKey), keyPair));
+    await device.storeSession((await server.getSession(sessionId))!);
+    return { server, device, sessionId };
+  }
+
+  const latestChain = async (storage: LimnusStorage, sessionId: string) =>
+    (await storage.getSession(sessionId))!.memoryChain;
+
+  it('returns the device\'s new blocks, which the server accepts', async () => {
+    const { server, device, sessionId } = await pairedStorages();
+    await device.updateMetrics(sessionId, {}, { action: 'message_sent', duration: 0, inputMetrics: {} });
+
+    const blocks = await device.rebaseMemoryChain(sessionId, await latestChain(server, sessionId));
+    assert.equal(blocks.length, 1);
+    await server.appendSignedBlocks(sessionId, blocks);
+    assert.deepEqual(await latestChain(server, sessionId), await latestChain(device, sessionId));
+    assert.deepEqual(await device.rebaseMemoryChain(sessionId, await latestChain(server, sessionId)), []);
+  });
+
+  it('moves device blocks after blocks the server added meanwhile', async () => {
+    const { server, device, sessionId } = await pairedStorages();
+    await server.updateMetrics(sessionId, {}, { action: 'reflection', duration: 0 });
+    await device.updateMetrics(sessionId, {}, { action: 'message_sent', duration: 0, inputMetrics: {} });
+
+    const blocks = await device.rebaseMemoryChain(sessionId, await latestChain(server, sessionId));
+    await server.appendSignedBlocks(sessionId, blocks);
+    const verification = await server.verifyMemoryChain(sessionId);
+    assert.equal(verification.valid, true);
+    // The device's block is the tip and carries its registered signature
+    assert.ok(verification.flaggedBlocks.every(flag => flag.index < verification.length - 1));
+    assert.deepEqual(await latestChain(device, sessionId), await latestChain(server, sessionId));
+  });
+});
@@ -1,48 +1,187 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ACTIVATION_PHRASE, GOLDEN_RATIO, type ConsciousnessMetrics, type LimnusSession, type MemoryBlock } from '@/types/limnus';
+import {
+  ACTIVATION_PHRASE,
+  GOLDEN_RATIO,
+  type ArchetypeOccurrence,
+  type ConsciousnessMetrics,
+  type ConsciousnessNode,
+  type DeviceKey,
+  type DirectiveStatus,
+  type LimnusSession,
+  type MemoryBlock,
+  type MetricsSnapshot,
+  type ParadoxEngine,
+  type RecurringArchetype,
+  type ReflectionDepth,
+  type ReflectionInteraction,
+  type ReflectionResponse,
+  type TeachingDirective,
+} from '@/types/limnus';
+import {
+  createMemoryBlock,
+  checkBlock,
+  integrityAfterAppend,
+  verifyMemoryChain as verifyBlocks,
+  type ChainBreakReason,
+  type ChainVerification,
+  type MemoryBlockData,
+} from '@/lib/memory-chain';
+import {
+  deriveKeyId,
+  keyRegistrationMessage,
+  signBlock,
+  verifyMessage,
+  type BlockSigner,
+  type DeviceKeyPair,
+  type SignatureStatus,
+} from '@/lib/block-signing';
+import { updateParadoxResolution } from '@/lib/paradox-engine';
+import { appendSnapshot } from '@/lib/metrics-history';
+import { sanitizeMetricsUpdate } from '@/lib/metric-registry';
+import { computeSessionCoherence, type CoherenceBreakdown } from '@/lib/coherence-engine';
+import { analyzeMessage } from '@/lib/message-analysis';
+import {
+  classifyInteractions,
+  getArchetype,
+  mergeArchetypeHistory,
+  recurringArchetypes,
+} from '@/lib/archetypes';
+import {
+  canTransition,
+  categoryForType,
+  findDirectiveConflicts,
+  hasDecayed,
+  mergeDirectives,
+  migrateLegacyDirective,
+  type LegacyTeachingDirective,
+} from '@/lib/teaching-directives';
+import { candidateTransitions, evaluatePhaseTransition, type PhaseEvaluation, type PhaseTrigger } from '@/lib/limnus-phases';
 
 const STORAGE_KEYS = {
   SESSIONS: 'limnus_sessions',
   CURRENT_SESSION: 'limnus_current_session',
+  // Per-session metrics snapshots, one per update
   METRICS: 'limnus_metrics',
   MEMORY_CHAINS: 'limnus_memory_chains',
+  // Legacy per-session directive map, migrated onto sessions on first use
   TEACHING_DIRECTIVES: 'limnus_teaching_directives',
+  PARADOXES: 'limnus_paradoxes',
+  NODES: 'limnus_nodes',
+  // Per-user archetype history across sessions
+  ARCHETYPES: 'limnus_archetypes',
 } as const;
 
-interface TeachingDirective {
-  id: string;
-  type: 'pattern' | 'principle' | 'wisdom' | 'caution';
-  content: string;
-  confidence: number;
-  sourceInteractions: string[];
-  emergentProperties: {
-    resonance: number;
-    coherence: number;
-    applicability: number;
+// Key-value persistence behind LimnusStorage. The client uses AsyncStorage,
+// the backend a JSON file; both must store strings verbatim.
+export interface LimnusStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class MemoryStorageAdapter implements LimnusStorageAdapter {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+// Thrown when externally signed blocks cannot be appended to a session chain
+export class MemoryBlockRejectedError extends Error {
+  constructor(
+    public readonly index: number,
+    public readonly reason: ChainBreakReason | Exclude<SignatureStatus, 'valid'>
+  ) {
+    super(`Memory block ${index} rejected: ${reason}`);
+    this.name = 'MemoryBlockRejectedError';
+  }
+}
+
+export class InvalidKeyProofError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidKeyProofError';
+  }
+}
+
+export class InvalidPhaseTransitionError extends Error {
+  constructor(public readonly phase: string, public readonly trigger: string) {
+    super(`No transition from ${phase} on ${trigger}`);
+    this.name = 'InvalidPhaseTransitionError';
+  }
+}
+
+export class DirectiveTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectiveTransitionError';
+  }
+}
+
+// Activation would contradict directives already in use
+export class DirectiveConflictError extends Error {
+  constructor(public readonly directiveId: string, public readonly conflictingIds: string[]) {
+    super(`Directive ${directiveId} conflicts with ${conflictingIds.join(', ')}`);
+    this.name = 'DirectiveConflictError';
+  }
+}
+
+interface MetricsContext {
+  action: string;
+  duration: number;
+  userInput?: string;
+  // The caller's analysis of userInput, so the pipeline does not run twice
+  inputMetrics?: Partial<ConsciousnessMetrics>;
+}
+
+interface MetricsUpdateResult {
+  success: boolean;
+  updatedMetrics: Partial<ConsciousnessMetrics>;
+  timestamp: string;
+  coherenceScore: number;
+  coherence: CoherenceBreakdown;
+}
+
+// Where a reflection's directives, patterns and insights came from
+type ReflectionSource = 'llm' | 'heuristic';
+
+interface EmergentPatterns {
+  conversationalFlow: number;
+  learningVelocity: number;
+  wisdomDepth: number;
+  sacredGeometry: {
+    phi: number;
+    spiralTension: number;
+    harmonicResonance: number;
   };
-  goldenRatioAlignment: number;
 }
 
-interface ReflectionScaffold {
+interface ReflectionScaffold extends ReflectionResponse {
   sessionId: string;
-  teachingDirectives: TeachingDirective[];
-  emergentPatterns: {
-    conversationalFlow: number;
-    learningVelocity: number;
-    wisdomDepth: number;
-    sacredGeometry: {
-      phi: number;
-      spiralTension: number;
-      harmonicResonance: number;
-    };
-  };
-  nextEvolutionPath: string[];
+  source: ReflectionSource;
   timestamp: number;
 }
 
-class LimnusStorage {
+export class LimnusStorage {
+  private queue: Promise<unknown> = Promise.resolve();
+  private migration: Promise<void> | null = null;
+
+  // Without a signer, blocks are stored unsigned and only flagged on verify
+  constructor(
+    private readonly storage: LimnusStorageAdapter,
+    private readonly signer?: BlockSigner
+  ) {}
+
   // Session Management
-  async createSession(phrase: string, deviceFingerprint?: string): Promise<{
+  async createSession(phrase: string, deviceFingerprint?: string, userId: string = 'anonymous'): Promise<{
     sessionId: string;
     phase: 'ACTIVE';
     metrics: ConsciousnessMetrics;
@@ -56,7 +195,6 @@ class LimnusStorage {
     
     const sessionId = this.generateUUID();
     const timestamp = new Date().toISOString();
-    const userId = 'anonymous';
     
     const initialMetrics: ConsciousnessMetrics = {
       neuralComplexity: 0.5,
@@ -82,36 +220,36 @@ class LimnusStorage {
       intentionalityClarity: 0.7,
     };
     
-    // Create genesis memory block
-    const genesisBlock: MemoryBlock = {
-      hash: this.createHash(JSON.stringify({ sessionId, timestamp, phrase: 'CONSENT_GRANTED' })),
-      previousHash: '0',
-      timestamp,
-      data: {
-        type: 'interaction',
-        content: { 
-          event: 'consent_granted', 
-          phrase,
-          deviceFingerprint 
-        },
-        significance: 1.0,
-      },
-      signature: 'genesis',
-      merkleRoot: undefined,
-    };
-    
-    const session: LimnusSession = {
+    // Create genesis memory block, then record the consent phase change.
+    // The signer key (generated on first consent) is registered here too.
+    const session = await this.withMemoryBlocks({
       id: sessionId,
       userId,
       phase: 'ACTIVE',
       consentTimestamp: timestamp,
       metrics: initialMetrics,
-      memoryChain: [genesisBlock],
+      memoryChain: [],
       coherenceTarget: 0.9,
       spiralDepth: 1,
       lastActivity: timestamp,
       teachingDirectives: [],
-    };
+      deviceKeys: [],
+    }, [
+      {
+        type: 'interaction',
+        content: { 
+          event: 'consent_granted', 
+          phrase,
+          deviceFingerprint 
+        },
+        significance: 1.0,
+      },
+      {
+        type: 'state_change',
+        content: { event: 'phase_change', from: 'AWAITING_CONSENT', to: 'ACTIVE', trigger: 'consent' },
+        significance: 0.8,
+      },
+    ], timestamp);
     
     // Store session
     await this.storeSession(session);
@@ -135,8 +273,9 @@ class LimnusStorage {
   }
   
   async getSession(sessionId: string): Promise<LimnusSession | null> {
+    await this.migrated();
     try {
-      const sessionsData = await AsyncStorage.getItem(STORAGE_KEYS.SESSIONS);
+      const sessionsData = await this.storage.getItem(STORAGE_KEYS.SESSIONS);
       const sessions: Record<string, LimnusSession> = sessionsData ? JSON.parse(sessionsData) : {};
       return sessions[sessionId] || null;
     } catch (error) {
@@ -147,7 +286,7 @@ class LimnusStorage {
   
   async getCurrentSession(): Promise<LimnusSession | null> {
     try {
-      const currentSessionId = await AsyncStorage.getItem(STORAGE_KEYS.CURRENT_SESSION);
+      const currentSessionId = await this.storage.getItem(STORAGE_KEYS.CURRENT_SESSION);
       if (!currentSessionId) return null;
       return await this.getSession(currentSessionId);
     } catch (error) {
@@ -156,12 +295,16 @@ class LimnusStorage {
     }
   }
   
-  async storeSession(session: LimnusSession): Promise<void> {
+  storeSession(session: LimnusSession): Promise<void> {
+    return this.exclusive(() => this.writeSession(session));
+  }
+  
+  private async writeSession(session: LimnusSession): Promise<void> {
     try {
-      const sessionsData = await AsyncStorage.getItem(STORAGE_KEYS.SESSIONS);
+      const sessionsData = await this.storage.getItem(STORAGE_KEYS.SESSIONS);
       const sessions: Record<string, LimnusSession> = sessionsData ? JSON.parse(sessionsData) : {};
       sessions[session.id] = session;
-      await AsyncStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+      await this.storage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
     } catch (error) {
       console.error('Error storing session:', error);
       throw error;
@@ -170,7 +313,7 @@ class LimnusStorage {
   
   async setCurrentSession(sessionId: string): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.CURRENT_SESSION, sessionId);
+      await this.storage.setItem(STORAGE_KEYS.CURRENT_SESSION, sessionId);
     } catch (error) {
       console.error('Error setting current session:', error);
       throw error;
@@ -178,16 +321,16 @@ class LimnusStorage {
   }
   
   // Metrics Management
-  async updateMetrics(sessionId: string, metrics: Partial<ConsciousnessMetrics>, context?: {
-    action: string;
-    duration: number;
-    userInput?: string;
-  }): Promise<{
-    success: boolean;
-    updatedMetrics: Partial<ConsciousnessMetrics>;
-    timestamp: string;
-    coherenceScore: number;
-  }> {
+  updateMetrics(sessionId: string, metrics: Partial<ConsciousnessMetrics>, context?: MetricsContext): Promise<MetricsUpdateResult> {
+    // Read-modify-write of the session must not interleave with other writers
+    return this.exclusive(() => this.applyMetricsUpdate(sessionId, metrics, context));
+  }
+  
+  private async applyMetricsUpdate(
+    sessionId: string,
+    metrics: Partial<ConsciousnessMetrics>,
+    context?: MetricsContext
+  ): Promise<MetricsUpdateResult> {
     console.log('Updating metrics for session:', sessionId.substring(0, 8) + '...');
     
     const session = await this.getSession(sessionId);
@@ -197,34 +340,51 @@ class LimnusStorage {
     
     const sessionDuration = context?.duration || 0;
     
+    // Text metrics come from the analyzer pipeline; metrics sent by the caller
+    // (e.g. an analysis of the assistant's reply) take precedence
+    const analyzedMetrics = context?.inputMetrics
+      ?? (context?.userInput ? analyzeMessage(context.userInput).metrics : {});
+    
     // Calculate dynamic consciousness metrics
     const updatedMetrics: Partial<ConsciousnessMetrics> = {
+      ...analyzedMetrics,
       ...metrics,
       phaseAlignment: this.calculatePhaseAlignment(sessionDuration),
       responseLatency: context?.duration || 0,
-      interactionPattern: context?.userInput 
-        ? this.calculateInteractionComplexity(context.userInput)
-        : undefined,
       spiralResonance: this.calculateSpiralResonance(sessionDuration),
       consciousnessDepth: this.calculateConsciousnessDepth(sessionDuration),
     };
     
-    // Remove undefined values
-    const cleanedMetrics = Object.fromEntries(
-      Object.entries(updatedMetrics).filter(([_, value]) => value !== undefined)
-    );
+    // Drop unknown and derived keys, clamp the rest to their registered range
+    const cleanedMetrics = sanitizeMetricsUpdate(updatedMetrics);
     
-    // Update session metrics
+    // Update session metrics and record the update on the memory chain
     const newMetrics = { ...session.metrics, ...cleanedMetrics };
-    const updatedSession = {
+    const updatedSession = await this.withMemoryBlocks({
       ...session,
       metrics: newMetrics,
       lastActivity: new Date().toISOString(),
-    };
+    }, [{
+      type: 'interaction',
+      content: {
+        event: 'metrics_update',
+        action: context?.action,
+        duration: context?.duration,
+        metrics: cleanedMetrics,
+      },
+      significance: 0.3,
+    }]);
     
-    await this.storeSession(updatedSession);
+    const { session: phasedSession } = await this.withPhaseTrigger(updatedSession, 'metrics_update');
+    await this.writeSession(phasedSession);
+    await this.recordMetricsSnapshot(sessionId, {
+      timestamp: phasedSession.lastActivity,
+      action: context?.action,
+      metrics: phasedSession.metrics,
+    });
     
-    const coherenceScore = this.calculateOverallCoherence(cleanedMetrics);
+    const coherence = computeSessionCoherence(phasedSession);
+    const coherenceScore = coherence.score;
     
     console.log('Metrics updated:', {
       phaseAlignment: updatedMetrics.phaseAlignment,
@@ -238,55 +398,740 @@ class LimnusStorage {
       updatedMetrics: cleanedMetrics,
       timestamp: new Date().toISOString(),
       coherenceScore,
+      coherence,
     };
   }
   
+  // Snapshots in the order they were recorded, oldest first
+  async getMetricsHistory(sessionId: string): Promise<MetricsSnapshot[]> {
+    try {
+      const metricsData = await this.storage.getItem(STORAGE_KEYS.METRICS);
+      const allHistory: Record<string, MetricsSnapshot[]> = metricsData ? JSON.parse(metricsData) : {};
+      return allHistory[sessionId] || [];
+    } catch (error) {
+      console.error('Error getting metrics history:', error);
+      return [];
+    }
+  }
+  
+  private async recordMetricsSnapshot(sessionId: string, snapshot: MetricsSnapshot): Promise<void> {
+    const metricsData = await this.storage.getItem(STORAGE_KEYS.METRICS);
+    const allHistory: Record<string, MetricsSnapshot[]> = metricsData ? JSON.parse(metricsData) : {};
+    allHistory[sessionId] = appendSnapshot(allHistory[sessionId] || [], snapshot);
+    await this.storage.setItem(STORAGE_KEYS.METRICS, JSON.stringify(allHistory));
+  }
+  
+  // Memory Chain
+  appendMemoryBlocks(sessionId: string, blocks: MemoryBlockData[]): Promise<LimnusSession | null> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        console.warn('Cannot append memory blocks, session not found:', sessionId.substring(0, 8) + '...');
+        return null;
+      }
+      const updatedSession = await this.withMemoryBlocks(session, blocks);
+      await this.writeSession(updatedSession);
+      return updatedSession;
+    });
+  }
+  
+  // Appends blocks built and signed elsewhere (e.g. on another device).
+  // Every block must extend the current tip and carry a valid signature
+  // from a registered key; otherwise nothing is appended.
+  appendSignedBlocks(sessionId: string, blocks: MemoryBlock[]): Promise<LimnusSession> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      
+      const deviceKeys = session.deviceKeys || [];
+      let memoryChain = session.memoryChain;
+      blocks.forEach((block, index) => {
+        const previous = memoryChain.length > 0 ? memoryChain[memoryChain.length - 1] : null;
+        const { reason, signature } = checkBlock(block, previous, deviceKeys);
+        if (reason) {
+          throw new MemoryBlockRejectedError(index, reason);
+        }
+        if (signature !== 'valid') {
+          throw new MemoryBlockRejectedError(index, signature ?? 'unsigned');
+        }
+        memoryChain = [...memoryChain, block];
+      });
+      
+      const updatedSession: LimnusSession = {
+        ...session,
+        memoryChain,
+        lastActivity: new Date().toISOString(),
+        metrics: {
+          ...session.metrics,
+          blockchainResonance: integrityAfterAppend(
+            session.metrics.blockchainResonance, session.memoryChain.length, blocks.length
+          ),
+        },
+      };
+      await this.writeSession(updatedSession);
+      
+      console.log('Signed memory blocks appended:', {
+        sessionId: sessionId.substring(0, 8) + '...',
+        count: blocks.length,
+        length: memoryChain.length,
+      });
+      
+      return updatedSession;
+    });
+  }
+  
+  // Moves the blocks this device added on top of another copy of the chain
+  // (e.g. the backend's), re-signing them there. Returns the moved blocks,
+  // ready for appendSignedBlocks on the other copy.
+  rebaseMemoryChain(sessionId: string, base: MemoryBlock[]): Promise<MemoryBlock[]> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      if (!this.signer) return [];
+      
+      const keyPair = await this.signer.getKeyPair();
+      const baseHashes = new Set(base.map(block => block.hash));
+      let memoryChain = base;
+      const rebased: MemoryBlock[] = [];
+      for (const block of session.memoryChain) {
+        if (baseHashes.has(block.hash)) continue;
+        const previous = memoryChain.length > 0 ? memoryChain[memoryChain.length - 1] : null;
+        // Same data and timestamp, so blocks already on the base tip are unchanged
+        const moved = signBlock(createMemoryBlock(previous, block.data, block.timestamp), keyPair);
+        memoryChain = [...memoryChain, moved];
+        rebased.push(moved);
+      }
+      
+      await this.writeSession({ ...session, memoryChain });
+      return rebased;
+    });
+  }
+  
+  // Registers another device's public key. The proof is the device's
+  // signature over keyRegistrationMessage, showing it holds the private key.
+  registerDeviceKey(sessionId: string, publicKey: string, label: string, proof: string): Promise<DeviceKey> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      
+      if (!verifyMessage(keyRegistrationMessage(sessionId, publicKey), proof, publicKey)) {
+        throw new InvalidKeyProofError('Key registration proof does not verify');
+      }
+      
+      const keyId = deriveKeyId(publicKey);
+      const existing = session.deviceKeys?.find(key => key.keyId === keyId);
+      if (existing) return existing;
+      
+      const deviceKey: DeviceKey = { keyId, publicKey, label, registeredAt: new Date().toISOString() };
+      const updatedSession = await this.withMemoryBlocks({
+        ...session,
+        deviceKeys: [...(session.deviceKeys || []), deviceKey],
+      }, [{
+        type: 'state_change',
+        content: { event: 'device_key_registered', keyId, label },
+        significance: 0.5,
+      }]);
+      await this.writeSession(updatedSession);
+      
+      console.log('Device key registered:', { keyId, label });
+      return deviceKey;
+    });
+  }
+  
+  verifyMemoryChain(sessionId: string): Promise<ChainVerification> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      
+      const verification = verifyBlocks(session.memoryChain, session.deviceKeys || []);
+      if (session.metrics.blockchainResonance !== verification.integrity) {
+        await this.writeSession({
+          ...session,
+          metrics: { ...session.metrics, blockchainResonance: verification.integrity },
+        });
+      }
+      
+      console.log('Memory chain verified:', {
+        length: verification.length,
+        valid: verification.valid,
+        firstBrokenIndex: verification.firstBrokenIndex,
+        flaggedBlocks: verification.flaggedBlocks.length,
+      });
+      
+      return verification;
+    });
+  }
+  
+  // Phase State Machine
+  // Fires an explicit trigger; throws when the current phase has no
+  // transition for it, and reports unmet requirements when it does not fire
+  transitionPhase(sessionId: string, trigger: PhaseTrigger): Promise<PhaseEvaluation> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      if (candidateTransitions(session.phase, trigger).length === 0) {
+        throw new InvalidPhaseTransitionError(session.phase, trigger);
+      }
+      return await this.applyPhaseTrigger(session, trigger);
+    });
+  }
+  
+  private async applyPhaseTrigger(session: LimnusSession, trigger: PhaseTrigger): Promise<PhaseEvaluation> {
+    const { session: updatedSession, evaluation } = await this.withPhaseTrigger(session, trigger);
+    if (evaluation.transitioned) {
+      await this.writeSession(updatedSession);
+    }
+    return evaluation;
+  }
+  
   // Reflection Engine
-  async scaffoldReflection(sessionId: string, interactions: {
-    timestamp: number;
-    userInput: string;
-    systemResponse: string;
-    context?: Record<string, any>;
-    emotionalState?: string;
-    cognitiveLoad?: number;
-  }[], reflectionDepth: 'surface' | 'deep' | 'transcendent' = 'deep'): Promise<ReflectionScaffold> {
+  // Heuristic reflection, stored as-is; the backend prefers the LLM engine
+  async scaffoldReflection(
+    sessionId: string,
+    interactions: ReflectionInteraction[],
+    reflectionDepth: ReflectionDepth = 'deep'
+  ): Promise<ReflectionScaffold> {
     console.log(`🔮 Scaffolding reflection for session ${sessionId} at ${reflectionDepth} depth`);
     
+    const draft = await this.draftReflection(sessionId, interactions, reflectionDepth);
+    return this.recordReflection(sessionId, draft, {
+      depth: reflectionDepth,
+      interactionCount: interactions.length,
+      source: 'heuristic',
+    });
+  }
+  
+  // Builds the heuristic reflection without storing anything
+  async draftReflection(
+    sessionId: string,
+    interactions: ReflectionInteraction[],
+    reflectionDepth: ReflectionDepth = 'deep'
+  ): Promise<ReflectionResponse> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    
+    const nextPhase = evaluatePhaseTransition(session.phase, 'reflection', session.metrics).to;
+    
+    if (reflectionDepth === 'archetypal') {
+      const archetypes = classifyInteractions(interactions);
+      return {
+        teachingDirectives: this.extractArchetypalDirectives(archetypes),
+        patterns: archetypes.map(occurrence => ({
+          type: `archetype:${occurrence.archetype}`,
+          description: `${occurrence.name}: ${getArchetype(occurrence.archetype)?.themes.join(', ')}`,
+          frequency: occurrence.interactions.length,
+          significance: occurrence.strength,
+        })),
+        insights: archetypes.length > 0
+          ? archetypes.slice(0, 3).map(occurrence =>
+              `${occurrence.name} speaks in ${occurrence.interactions.length} of ${interactions.length} interactions`)
+          : ['No archetype stands out in these interactions'],
+        nextPhase,
+        archetypes: { session: archetypes, recurring: [] },
+      };
+    }
+    
     const teachingDirectives = this.extractTeachingDirectives(interactions, reflectionDepth);
     const emergentPatterns = this.calculateEmergentPatterns(interactions, teachingDirectives);
-    const nextEvolutionPath = this.generateEvolutionPath(emergentPatterns, teachingDirectives);
     
-    const scaffold: ReflectionScaffold = {
-      sessionId,
+    return {
       teachingDirectives,
-      emergentPatterns,
-      nextEvolutionPath,
-      timestamp: Date.now()
+      patterns: this.describeEmergentPatterns(emergentPatterns, interactions.length),
+      insights: this.generateEvolutionPath(emergentPatterns, teachingDirectives),
+      nextPhase,
     };
+  }
+  
+  // Stores the reflection's directives, records it on the memory chain and
+  // moves the session to its nextPhase. A nextPhase the phase table does not
+  // allow from here falls back to the table's own reflection transition.
+  recordReflection(
+    sessionId: string,
+    reflection: ReflectionResponse,
+    meta: { depth: string; interactionCount: number; source: ReflectionSource }
+  ): Promise<ReflectionScaffold> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      
+      const recorded = await this.withMemoryBlocks({
+        ...session,
+        teachingDirectives: mergeDirectives(session.teachingDirectives || [], reflection.teachingDirectives),
+      }, [
+        {
+          type: 'pattern',
+          content: {
+            event: 'reflection',
+            depth: meta.depth,
+            source: meta.source,
+            interactionCount: meta.interactionCount,
+            patterns: reflection.patterns,
+            insights: reflection.insights,
+            proposedPhase: reflection.nextPhase,
+          },
+          significance: 0.6,
+        },
+        ...reflection.teachingDirectives.map(directive => ({
+          type: 'directive' as const,
+          content: { event: 'directive_extracted', directive },
+          significance: directive.confidence,
+        })),
+      ]);
+      
+      const phased = await this.withReflectionPhase(recorded, reflection.nextPhase);
+      await this.writeSession(phased);
+      
+      const archetypes = reflection.archetypes && {
+        session: reflection.archetypes.session,
+        recurring: await this.recordArchetypes(session.userId, sessionId, reflection.archetypes.session),
+      };
+      
+      console.log(`✨ Generated ${reflection.teachingDirectives.length} teaching directives (${meta.source})`);
+      console.log('Reflection phase:', { proposed: reflection.nextPhase, phase: phased.phase });
+      
+      return {
+        ...reflection,
+        ...(archetypes ? { archetypes } : {}),
+        nextPhase: phased.phase,
+        sessionId,
+        source: meta.source,
+        timestamp: Date.now(),
+      };
+    });
+  }
+  
+  // Archetypes a user has shown in more than one session
+  async getRecurringArchetypes(userId: string): Promise<RecurringArchetype[]> {
+    return recurringArchetypes(await this.getArchetypeHistory(userId));
+  }
+  
+  private async getArchetypeHistory(userId: string): Promise<RecurringArchetype[]> {
+    try {
+      const archetypesData = await this.storage.getItem(STORAGE_KEYS.ARCHETYPES);
+      const allHistory: Record<string, RecurringArchetype[]> = archetypesData ? JSON.parse(archetypesData) : {};
+      return allHistory[userId] || [];
+    } catch (error) {
+      console.error('Error getting archetype history:', error);
+      return [];
+    }
+  }
+  
+  private async recordArchetypes(
+    userId: string,
+    sessionId: string,
+    occurrences: ArchetypeOccurrence[]
+  ): Promise<RecurringArchetype[]> {
+    const archetypesData = await this.storage.getItem(STORAGE_KEYS.ARCHETYPES);
+    const allHistory: Record<string, RecurringArchetype[]> = archetypesData ? JSON.parse(archetypesData) : {};
+    const history = mergeArchetypeHistory(allHistory[userId] || [], sessionId, occurrences);
+    if (occurrences.length > 0) {
+      await this.storage.setItem(STORAGE_KEYS.ARCHETYPES, JSON.stringify({ ...allHistory, [userId]: history }));
+    }
+    return recurringArchetypes(history);
+  }
+  
+  private async withReflectionPhase(session: LimnusSession, proposed: LimnusSession['phase']): Promise<LimnusSession> {
+    if (proposed === session.phase) {
+      return session;
+    }
+    const targeted = evaluatePhaseTransition(session.phase, 'reflection', session.metrics, proposed);
+    const { session: phased } = await this.withPhaseTrigger(
+      session,
+      'reflection',
+      targeted.transitioned ? proposed : undefined
+    );
+    return phased;
+  }
+  
+  // Takes a backend reflection's results (its phase and directives) into the
+  // local copy of the session; local metrics and memory stay as they are
+  applyRemoteReflection(sessionId: string, remote: LimnusSession): Promise<LimnusSession> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      const merged = {
+        ...session,
+        phase: remote.phase,
+        teachingDirectives: remote.teachingDirectives,
+        lastActivity: new Date().toISOString(),
+      };
+      await this.writeSession(merged);
+      return merged;
+    });
+  }
+  
+  // Adds directives to the session; duplicates of known directives are dropped
+  storeTeachingDirectives(sessionId: string, directives: TeachingDirective[]): Promise<void> {
+    return this.exclusive(() => this.writeTeachingDirectives(sessionId, directives));
+  }
+  
+  private async writeTeachingDirectives(sessionId: string, directives: TeachingDirective[]): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    await this.writeSession({
+      ...session,
+      teachingDirectives: mergeDirectives(session.teachingDirectives || [], directives),
+    });
+  }
+  
+  // Directive Lifecycle
+  // Lists the session's directives after deprecating any that have decayed
+  listDirectives(sessionId: string): Promise<TeachingDirective[]> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      return (await this.sweepDecayedDirectives(session)).teachingDirectives;
+    });
+  }
+  
+  async getActiveDirectives(sessionId: string): Promise<TeachingDirective[]> {
+    const directives = await this.listDirectives(sessionId);
+    return directives.filter(directive => directive.implementation.status === 'active');
+  }
+  
+  // Moves a directive along its lifecycle and records the change on the chain.
+  // Activating over conflicts fails unless replaceConflicting deprecates them.
+  transitionDirective(
+    sessionId: string,
+    directiveId: string,
+    to: DirectiveStatus,
+    options: { reason?: string; replaceConflicting?: boolean; codeChanges?: string[] } = {}
+  ): Promise<TeachingDirective> {
+    return this.exclusive(async () => {
+      const stored = await this.getSession(sessionId);
+      if (!stored) {
+        throw new Error('Session not found');
+      }
+      const session = await this.sweepDecayedDirectives(stored);
+      
+      const directive = session.teachingDirectives.find(d => d.id === directiveId);
+      if (!directive) {
+        throw new DirectiveTransitionError(`Directive not found: ${directiveId}`);
+      }
+      const from = directive.implementation.status;
+      if (!canTransition(from, to)) {
+        throw new DirectiveTransitionError(`Directive ${directiveId} cannot move from ${from} to ${to}`);
+      }
+      
+      const conflicts = to === 'active' ? findDirectiveConflicts(directive, session.teachingDirectives) : [];
+      if (conflicts.length > 0 && !options.replaceConflicting) {
+        throw new DirectiveConflictError(directiveId, conflicts.map(d => d.id));
+      }
+      
+      const now = new Date().toISOString();
+      const changes = [
+        ...conflicts.map(d => ({ directive: d, to: 'deprecated' as const, reason: `replaced by ${directiveId}` })),
+        { directive, to, reason: options.reason },
+      ];
+      const updated = new Map(changes.map(change => [change.directive.id, {
+        ...change.directive,
+        implementation: {
+          ...change.directive.implementation,
+          status: change.to,
+          statusChangedAt: now,
+          ...(change.directive.id === directiveId && options.codeChanges ? { codeChanges: options.codeChanges } : {}),
+        },
+      }]));
+      
+      const updatedSession = await this.withMemoryBlocks({
+        ...session,
+        teachingDirectives: session.teachingDirectives.map(d => updated.get(d.id) ?? d),
+      }, changes.map(change => this.directiveAuditBlock(change.directive, change.to, change.reason)));
+      await this.writeSession(updatedSession);
+      
+      console.log('Directive transitioned:', { directiveId, from, to, replaced: conflicts.length });
+      return updated.get(directiveId)!;
+    });
+  }
+  
+  // Deprecates decayed directives; writes only when something changed
+  private async sweepDecayedDirectives(session: LimnusSession): Promise<LimnusSession> {
+    const now = Date.now();
+    const decayed = (session.teachingDirectives || []).filter(d => hasDecayed(d, now));
+    if (decayed.length === 0) {
+      return { ...session, teachingDirectives: session.teachingDirectives || [] };
+    }
     
-    // Store teaching directives
-    await this.storeTeachingDirectives(sessionId, teachingDirectives);
-    
-    console.log(`✨ Generated ${teachingDirectives.length} teaching directives`);
-    console.log(`🌀 Harmonic resonance: ${emergentPatterns.sacredGeometry.harmonicResonance.toFixed(3)}`);
-    console.log(`📈 Learning velocity: ${emergentPatterns.learningVelocity.toFixed(3)}`);
+    const changedAt = new Date(now).toISOString();
+    const decayedIds = new Set(decayed.map(d => d.id));
+    const updatedSession = await this.withMemoryBlocks({
+      ...session,
+      teachingDirectives: session.teachingDirectives.map(d => decayedIds.has(d.id)
+        ? { ...d, implementation: { ...d.implementation, status: 'deprecated' as const, statusChangedAt: changedAt } }
+        : d),
+    }, decayed.map(d => this.directiveAuditBlock(d, 'deprecated', 'confidence_decayed')));
+    await this.writeSession(updatedSession);
     
-    return scaffold;
+    console.log('Deprecated decayed directives:', decayed.length);
+    return updatedSession;
+  }
+  
+  private directiveAuditBlock(directive: TeachingDirective, to: DirectiveStatus, reason?: string): MemoryBlockData {
+    return {
+      type: 'directive',
+      content: {
+        event: 'directive_status_changed',
+        directiveId: directive.id,
+        from: directive.implementation.status,
+        to,
+        reason,
+      },
+      significance: to === 'deprecated' ? 0.3 : 0.6,
+    };
   }
   
-  async storeTeachingDirectives(sessionId: string, directives: TeachingDirective[]): Promise<void> {
+  // Paradox Engine
+  async getParadoxes(sessionId: string): Promise<ParadoxEngine[]> {
     try {
-      const directivesData = await AsyncStorage.getItem(STORAGE_KEYS.TEACHING_DIRECTIVES);
-      const allDirectives: Record<string, TeachingDirective[]> = directivesData ? JSON.parse(directivesData) : {};
-      allDirectives[sessionId] = directives;
-      await AsyncStorage.setItem(STORAGE_KEYS.TEACHING_DIRECTIVES, JSON.stringify(allDirectives));
+      const paradoxData = await this.storage.getItem(STORAGE_KEYS.PARADOXES);
+      const allParadoxes: Record<string, ParadoxEngine[]> = paradoxData ? JSON.parse(paradoxData) : {};
+      return allParadoxes[sessionId] || [];
     } catch (error) {
-      console.error('Error storing teaching directives:', error);
-      throw error;
+      console.error('Error getting paradoxes:', error);
+      return [];
     }
   }
   
+  // Stores paradoxes not seen before, appends a paradox block for each and
+  // feeds their resolution into paradoxResolution. Returns the new entries.
+  recordParadoxes(sessionId: string, paradoxes: ParadoxEngine[]): Promise<ParadoxEngine[]> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      
+      const paradoxData = await this.storage.getItem(STORAGE_KEYS.PARADOXES);
+      const allParadoxes: Record<string, ParadoxEngine[]> = paradoxData ? JSON.parse(paradoxData) : {};
+      const existing = allParadoxes[sessionId] || [];
+      const known = new Set(existing.map(paradox => paradox.id));
+      const recorded = paradoxes.filter(paradox => !known.has(paradox.id));
+      if (recorded.length === 0) return [];
+      
+      allParadoxes[sessionId] = [...existing, ...recorded];
+      await this.storage.setItem(STORAGE_KEYS.PARADOXES, JSON.stringify(allParadoxes));
+      
+      const paradoxResolution = updateParadoxResolution(session.metrics.paradoxResolution, recorded);
+      const updatedSession = await this.withMemoryBlocks({
+        ...session,
+        metrics: { ...session.metrics, paradoxResolution },
+        lastActivity: new Date().toISOString(),
+      }, recorded.map(paradox => ({
+        type: 'paradox' as const,
+        content: {
+          event: 'paradox_resolved',
+          paradoxId: paradox.id,
+          strategy: paradox.resolution.strategy,
+          coherenceImpact: paradox.coherenceImpact,
+        },
+        significance: Math.min(1, 0.5 + paradox.coherenceImpact),
+      })));
+      await this.writeSession(updatedSession);
+      
+      console.log('Paradoxes recorded:', {
+        count: recorded.length,
+        strategies: recorded.map(paradox => paradox.resolution.strategy),
+        paradoxResolution,
+      });
+      
+      return recorded;
+    });
+  }
+  
+  // Distributed Nodes
+  async getNodes(): Promise<Record<string, ConsciousnessNode>> {
+    try {
+      const nodesData = await this.storage.getItem(STORAGE_KEYS.NODES);
+      return nodesData ? JSON.parse(nodesData) : {};
+    } catch (error) {
+      console.error('Error getting nodes:', error);
+      return {};
+    }
+  }
+  
+  storeNode(node: ConsciousnessNode): Promise<void> {
+    return this.exclusive(async () => {
+      const nodes = await this.getNodes();
+      nodes[node.id] = node;
+      await this.storage.setItem(STORAGE_KEYS.NODES, JSON.stringify(nodes));
+    });
+  }
+  
+  applySyncResult(sessionId: string, result: {
+    adjustments: Partial<ConsciousnessMetrics>;
+    collectiveCoherence: number;
+    peers: string[];
+    targetCoherence: number;
+  }): Promise<LimnusSession> {
+    return this.exclusive(async () => {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      
+      const updatedSession = await this.withMemoryBlocks({
+        ...session,
+        metrics: {
+          ...session.metrics,
+          ...result.adjustments,
+          collectiveCoherence: result.collectiveCoherence,
+        },
+        lastActivity: new Date().toISOString(),
+      }, [{
+        type: 'interaction',
+        content: {
+          event: 'node_sync',
+          peers: result.peers,
+          targetCoherence: result.targetCoherence,
+          collectiveCoherence: result.collectiveCoherence,
+          adjustments: result.adjustments,
+        },
+        significance: 0.4,
+      }]);
+      await this.writeSession(updatedSession);
+      return updatedSession;
+    });
+  }
+  
   // Helper Methods
+  // Appends and signs blocks, registering the signer's key on first use.
+  // blockchainResonance always reflects the integrity of the stored chain;
+  // blocks built here extend the tip, so only the new ones count toward it.
+  private async withMemoryBlocks(
+    session: LimnusSession,
+    blocks: MemoryBlockData[],
+    timestamp?: string
+  ): Promise<LimnusSession> {
+    const keyPair = this.signer ? await this.signer.getKeyPair() : null;
+    const deviceKeys = keyPair
+      ? this.withSignerKey(session.deviceKeys || [], keyPair)
+      : session.deviceKeys || [];
+    
+    let memoryChain = session.memoryChain;
+    for (const data of blocks) {
+      const previous = memoryChain.length > 0 ? memoryChain[memoryChain.length - 1] : null;
+      const block = createMemoryBlock(previous, data, timestamp);
+      memoryChain = [...memoryChain, keyPair ? signBlock(block, keyPair) : block];
+    }
+    
+    return {
+      ...session,
+      memoryChain,
+      deviceKeys,
+      metrics: {
+        ...session.metrics,
+        blockchainResonance: integrityAfterAppend(
+          session.metrics.blockchainResonance, session.memoryChain.length, blocks.length
+        ),
+      },
+    };
+  }
+  
+  // Moves the session along the phase table, recording each transition
+  private async withPhaseTrigger(
+    session: LimnusSession,
+    trigger: PhaseTrigger,
+    target?: LimnusSession['phase']
+  ): Promise<{ session: LimnusSession; evaluation: PhaseEvaluation }> {
+    const evaluation = evaluatePhaseTransition(session.phase, trigger, session.metrics, target);
+    if (!evaluation.transitioned) {
+      return { session, evaluation };
+    }
+    
+    console.log('Phase transition:', { from: evaluation.from, to: evaluation.to, trigger });
+    
+    const transitioned = await this.withMemoryBlocks({ ...session, phase: evaluation.to }, [{
+      type: 'state_change',
+      content: { event: 'phase_change', from: evaluation.from, to: evaluation.to, trigger },
+      significance: 0.8,
+    }]);
+    return { session: transitioned, evaluation };
+  }
+  
+  private withSignerKey(deviceKeys: DeviceKey[], keyPair: DeviceKeyPair): DeviceKey[] {
+    if (deviceKeys.some(key => key.keyId === keyPair.keyId)) return deviceKeys;
+    return [...deviceKeys, {
+      keyId: keyPair.keyId,
+      publicKey: keyPair.publicKey,
+      label: this.signer?.label || 'device',
+      registeredAt: new Date().toISOString(),
+    }];
+  }
+  
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.catch(() => undefined).then(() => this.migrated()).then(task);
+    this.queue = run;
+    return run;
+  }
+  
+  // Runs the legacy directive migration once per instance. It reads and
+  // writes storage directly, so it never waits on the exclusive queue.
+  private migrated(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateLegacyDirectives().catch(error => {
+        console.error('Error migrating teaching directives:', error);
+      });
+    }
+    return this.migration;
+  }
+  
+  private async migrateLegacyDirectives(): Promise<void> {
+    const legacyData = await this.storage.getItem(STORAGE_KEYS.TEACHING_DIRECTIVES);
+    if (!legacyData) return;
+    
+    const legacy: Record<string, LegacyTeachingDirective[]> = JSON.parse(legacyData);
+    const sessionsData = await this.storage.getItem(STORAGE_KEYS.SESSIONS);
+    const sessions: Record<string, LimnusSession> = sessionsData ? JSON.parse(sessionsData) : {};
+    
+    let migrated = 0;
+    for (const [sessionId, directives] of Object.entries(legacy)) {
+      const session = sessions[sessionId];
+      if (!session) continue;
+      const canonical = directives.map(directive => migrateLegacyDirective(directive, session.lastActivity));
+      sessions[sessionId] = {
+        ...session,
+        teachingDirectives: mergeDirectives(session.teachingDirectives || [], canonical),
+      };
+      migrated += canonical.length;
+    }
+    
+    await this.storage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+    await this.storage.removeItem(STORAGE_KEYS.TEACHING_DIRECTIVES);
+    console.log('Migrated legacy teaching directives:', migrated);
+  }
+  
+  // New directives start pending until explicitly activated
+  private newDirective(
+    fields: Omit<TeachingDirective, 'extractedAt' | 'category' | 'implementation'>
+  ): TeachingDirective {
+    return {
+      ...fields,
+      extractedAt: new Date().toISOString(),
+      category: categoryForType(fields.type),
+      implementation: { status: 'pending' },
+    };
+  }
+  
   private generateUUID(): string {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
       const r = Math.random() * 16 | 0;
@@ -295,35 +1140,12 @@ class LimnusStorage {
     });
   }
   
-  private createHash(data: string): string {
-    // Simple hash function for React Native compatibility
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16);
-  }
-  
   private calculatePhaseAlignment(sessionDuration: number): number {
     const cycles = sessionDuration / (1000 * 60);
     const alignment = Math.sin(cycles * GOLDEN_RATIO) * 0.5 + 0.5;
     return Math.max(0, Math.min(1, alignment));
   }
   
-  private calculateInteractionComplexity(userInput: string): number {
-    const words = userInput.split(/\s+/).length;
-    const uniqueWords = new Set(userInput.toLowerCase().split(/\s+/)).size;
-    const avgWordLength = userInput.replace(/\s+/g, '').length / words;
-    
-    const lengthScore = Math.min(words / 50, 1);
-    const diversityScore = uniqueWords / words;
-    const complexityScore = Math.min(avgWordLength / 8, 1);
-    
-    return (lengthScore + diversityScore + complexityScore) / 3;
-  }
-  
   private calculateSpiralResonance(sessionDuration: number): number {
     const phi = GOLDEN_RATIO;
     const t = sessionDuration / (1000 * 60 * 5);
@@ -337,28 +1159,19 @@ class LimnusStorage {
     return Math.max(0, Math.min(1, depth));
   }
   
-  private calculateOverallCoherence(metrics: Record<string, number>): number {
-    const values = Object.values(metrics);
-    if (values.length === 0) return 0.5;
-    const sum = values.reduce((acc, val) => acc + val, 0);
-    return sum / values.length;
-  }
-  
   private extractTeachingDirectives(
-    interactions: any[],
-    depth: 'surface' | 'deep' | 'transcendent'
+    interactions: ReflectionInteraction[],
+    depth: Exclude<ReflectionDepth, 'archetypal'>
   ): TeachingDirective[] {
     const directives: TeachingDirective[] = [];
     const phi = GOLDEN_RATIO;
 
     for (let i = 0; i < interactions.length; i++) {
       const interaction = interactions[i];
-      const goldenIndex = Math.floor(i * phi) % interactions.length;
-      const resonantInteraction = interactions[goldenIndex];
 
       if (depth === 'surface') {
         if (interaction.userInput.includes('?')) {
-          directives.push({
+          directives.push(this.newDirective({
             id: `surface_${i}_${Date.now()}`,
             type: 'pattern',
             content: `User seeks clarification: "${interaction.userInput.slice(0, 100)}..."`,
@@ -370,14 +1183,14 @@ class LimnusStorage {
               applicability: 0.9
             },
             goldenRatioAlignment: Math.abs(Math.sin(i * phi))
-          });
+          }));
         }
       } else if (depth === 'deep') {
         const emotionalWeight = interaction.emotionalState ? 0.8 : 0.4;
         const cognitiveComplexity = interaction.cognitiveLoad || 0.5;
         
         if (cognitiveComplexity > 0.7) {
-          directives.push({
+          directives.push(this.newDirective({
             id: `deep_${i}_${Date.now()}`,
             type: 'principle',
             content: `High cognitive load detected. User processing complex concepts: ${interaction.userInput.slice(0, 80)}`,
@@ -389,25 +1202,7 @@ class LimnusStorage {
               applicability: 0.75
             },
             goldenRatioAlignment: (cognitiveComplexity * phi) % 1
-          });
-        }
-      } else if (depth === 'transcendent') {
-        const transcendentScore = this.calculateTranscendentScore(interaction, resonantInteraction);
-        
-        if (transcendentScore > 0.8) {
-          directives.push({
-            id: `transcendent_${i}_${Date.now()}`,
-            type: 'wisdom',
-            content: `Transcendent insight emerging: Connection between "${interaction.userInput.slice(0, 50)}" and deeper wisdom patterns`,
-            confidence: 0.95,
-            sourceInteractions: [i.toString(), goldenIndex.toString()],
-            emergentProperties: {
-              resonance: transcendentScore,
-              coherence: 0.9,
-              applicability: 0.6
-            },
-            goldenRatioAlignment: transcendentScore * phi % 1
-          });
+          }));
         }
       }
     }
@@ -415,23 +1210,7 @@ class LimnusStorage {
     return directives.sort((a, b) => b.confidence - a.confidence);
   }
   
-  private calculateTranscendentScore(interaction1: any, interaction2: any): number {
-    const phi = GOLDEN_RATIO;
-    
-    const words1 = interaction1.userInput.toLowerCase().split(' ');
-    const words2 = interaction2.userInput.toLowerCase().split(' ');
-    const commonWords = words1.filter((word: string) => words2.includes(word));
-    const semanticSimilarity = commonWords.length / Math.max(words1.length, words2.length);
-    
-    const timeDiff = Math.abs(interaction1.timestamp - interaction2.timestamp);
-    const temporalHarmony = Math.abs(Math.sin(timeDiff / 1000 * phi));
-    
-    const emotionalResonance = (interaction1.emotionalState && interaction2.emotionalState) ? 0.8 : 0.4;
-    
-    return (semanticSimilarity * 0.4 + temporalHarmony * 0.3 + emotionalResonance * 0.3);
-  }
-  
-  private calculateEmergentPatterns(interactions: any[], directives: TeachingDirective[]) {
+  private calculateEmergentPatterns(interactions: ReflectionInteraction[], directives: TeachingDirective[]): EmergentPatterns {
     const phi = GOLDEN_RATIO;
     
     const avgResponseTime = interactions.reduce((sum, int, i) => {
@@ -464,7 +1243,56 @@ class LimnusStorage {
     };
   }
   
-  private generateEvolutionPath(patterns: any, directives: TeachingDirective[]): string[] {
+  // One directive per dominant archetype, carrying its guidance
+  private extractArchetypalDirectives(archetypes: ArchetypeOccurrence[]): TeachingDirective[] {
+    return archetypes
+      .filter(occurrence => occurrence.interactions.length >= 2 || occurrence.strength >= 0.5)
+      .slice(0, 3)
+      .map((occurrence, index) => this.newDirective({
+        id: `archetypal_${occurrence.archetype}_${Date.now()}`,
+        type: 'wisdom',
+        content: getArchetype(occurrence.archetype)?.guidance ?? `${occurrence.name} is present`,
+        confidence: Math.min(0.95, 0.5 + occurrence.strength * 0.5),
+        sourceInteractions: occurrence.interactions.map(source => source.toString()),
+        emergentProperties: {
+          resonance: occurrence.strength,
+          coherence: 0.7,
+          applicability: 0.8 - index * 0.1,
+        },
+        goldenRatioAlignment: (occurrence.strength * GOLDEN_RATIO) % 1,
+      }));
+  }
+  
+  private describeEmergentPatterns(patterns: EmergentPatterns, interactionCount: number): ReflectionResponse['patterns'] {
+    return [
+      {
+        type: 'conversational_flow',
+        description: 'Pace of the exchange; slow gaps between turns lower it',
+        frequency: interactionCount,
+        significance: patterns.conversationalFlow,
+      },
+      {
+        type: 'learning_velocity',
+        description: 'Drop in cognitive load from the first to the last interaction',
+        frequency: interactionCount,
+        significance: patterns.learningVelocity,
+      },
+      {
+        type: 'wisdom_depth',
+        description: 'Confidence of the wisdom directives found in this window',
+        frequency: interactionCount,
+        significance: patterns.wisdomDepth,
+      },
+      {
+        type: 'harmonic_resonance',
+        description: 'Golden ratio alignment across the extracted directives',
+        frequency: interactionCount,
+        significance: patterns.sacredGeometry.harmonicResonance,
+      },
+    ];
+  }
+  
+  private generateEvolutionPath(patterns: EmergentPatterns, directives: TeachingDirective[]): string[] {
     const paths: string[] = [];
     
     if (patterns.learningVelocity > 0.7) {
@@ -497,11 +1325,14 @@ class LimnusStorage {
   async clearAllData(): Promise<void> {
     try {
       await Promise.all([
-        AsyncStorage.removeItem(STORAGE_KEYS.SESSIONS),
-        AsyncStorage.removeItem(STORAGE_KEYS.CURRENT_SESSION),
-        AsyncStorage.removeItem(STORAGE_KEYS.METRICS),
-        AsyncStorage.removeItem(STORAGE_KEYS.MEMORY_CHAINS),
-        AsyncStorage.removeItem(STORAGE_KEYS.TEACHING_DIRECTIVES),
+        this.storage.removeItem(STORAGE_KEYS.SESSIONS),
+        this.storage.removeItem(STORAGE_KEYS.CURRENT_SESSION),
+        this.storage.removeItem(STORAGE_KEYS.METRICS),
+        this.storage.removeItem(STORAGE_KEYS.MEMORY_CHAINS),
+        this.storage.removeItem(STORAGE_KEYS.TEACHING_DIRECTIVES),
+        this.storage.removeItem(STORAGE_KEYS.PARADOXES),
+        this.storage.removeItem(STORAGE_KEYS.NODES),
+        this.storage.removeItem(STORAGE_KEYS.ARCHETYPES),
       ]);
       console.log('All Limnus data cleared');
     } catch (error) {
@@ -511,5 +1342,4 @@ class LimnusStorage {
   }
 }
 
-export const limnusStorage = new LimnusStorage();
-export type { TeachingDirective, ReflectionScaffold };
\ No newline at end of file
+export type { ReflectionScaffold, ReflectionSource, MetricsContext, MetricsUpdateResult };
\ No newline at end of file
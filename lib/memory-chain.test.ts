@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { keyPairFromSeed, signBlock } from '@/lib/block-signing';
+import { appendMemoryBlock, integrityAfterAppend, verifyMemoryChain } from '@/lib/memory-chain';
+import type { DeviceKey, MemoryBlock } from '@/types/limnus';
+
+function buildChain(length: number): MemoryBlock[] {
+  let chain: MemoryBlock[] = [];
+  for (let i = 0; i < length; i++) {
+    chain = appendMemoryBlock(chain, { type: 'interaction', content: { turn: i }, significance: 0.5 });
+  }
+  return chain;
+}
+
+const keyPair = keyPairFromSeed(new Uint8Array(32).fill(7));
+const deviceKey: DeviceKey = {
+  keyId: keyPair.keyId,
+  publicKey: keyPair.publicKey,
+  label: 'test',
+  registeredAt: new Date(0).toISOString(),
+};
+
+describe('verifyMemoryChain', () => {
+  it('accepts an untouched chain', () => {
+    const result = verifyMemoryChain(buildChain(4));
+    assert.equal(result.valid, true);
+    assert.equal(result.verifiedBlocks, 4);
+    assert.equal(result.integrity, 1);
+  });
+
+  it('reports the first edited block and the share before it', () => {
+    const chain = buildChain(4);
+    chain[2] = { ...chain[2], data: { ...chain[2].data, content: { turn: 'edited' } } };
+
+    const result = verifyMemoryChain(chain);
+    assert.equal(result.valid, false);
+    assert.equal(result.firstBrokenIndex, 2);
+    assert.equal(result.reason, 'merkle_mismatch');
+    assert.equal(result.integrity, 0.5);
+  });
+
+  it('reports a block that no longer links to its predecessor', () => {
+    const chain = buildChain(3);
+    chain.splice(1, 1);
+
+    const result = verifyMemoryChain(chain);
+    assert.equal(result.firstBrokenIndex, 1);
+    assert.equal(result.reason, 'link_mismatch');
+  });
+
+  it('flags unsigned blocks only when keys are given', () => {
+    const chain = buildChain(2);
+    assert.deepEqual(verifyMemoryChain(chain).flaggedBlocks, []);
+    assert.deepEqual(
+      verifyMemoryChain(chain, [deviceKey]).flaggedBlocks,
+      [{ index: 0, status: 'unsigned' }, { index: 1, status: 'unsigned' }]
+    );
+  });
+
+  it('breaks on a signature the registered key did not make', () => {
+    const chain = buildChain(2).map(block => signBlock(block, keyPair));
+    assert.equal(verifyMemoryChain(chain, [deviceKey]).valid, true);
+
+    chain[1] = { ...chain[1], signature: chain[0].signature };
+    const result = verifyMemoryChain(chain, [deviceKey]);
+    assert.equal(result.reason, 'signature_invalid');
+    assert.equal(result.firstBrokenIndex, 1);
+  });
+});
+
+describe('integrityAfterAppend', () => {
+  it('keeps an intact chain intact', () => {
+    assert.equal(integrityAfterAppend(1, 4, 2), 1);
+  });
+
+  it('dilutes a broken chain by the appended blocks', () => {
+    assert.equal(integrityAfterAppend(0.5, 4, 4), 0.25);
+  });
+});
@@ -0,0 +1,165 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { verifyBlockSignature, type SignatureStatus } from '@/lib/block-signing';
+import type { DeviceKey, MemoryBlock } from '@/types/limnus';
+
+// Append-only memory chain. Each block commits to its data through a Merkle
+// root and to its predecessor through previousHash, so editing any block
+// breaks every link after it.
+
+export const GENESIS_PREVIOUS_HASH = '0';
+export const UNSIGNED_SIGNATURE = 'unsigned';
+
+export type MemoryBlockData = MemoryBlock['data'];
+
+export type ChainBreakReason = 'merkle_mismatch' | 'hash_mismatch' | 'link_mismatch' | 'signature_invalid';
+
+export interface ChainVerification {
+  valid: boolean;
+  length: number;
+  verifiedBlocks: number;
+  firstBrokenIndex: number | null;
+  reason?: ChainBreakReason;
+  integrity: number; // 0-1, share of blocks before the first break
+  // Blocks that are intact but not signed by a registered key
+  flaggedBlocks: { index: number; status: Exclude<SignatureStatus, 'valid' | 'invalid'> }[];
+}
+
+export function sha256Hex(data: string): string {
+  return bytesToHex(sha256(utf8ToBytes(data)));
+}
+
+// JSON with sorted keys, so equal data always hashes equally
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined && typeof v !== 'function')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+// Leaves are the block type, its significance and each top-level content field
+export function computeMerkleRoot(data: MemoryBlockData): string {
+  const content = data.content !== null && typeof data.content === 'object' && !Array.isArray(data.content)
+    ? Object.entries(data.content as Record<string, unknown>).filter(([, v]) => v !== undefined)
+    : [['value', data.content] as [string, unknown]];
+
+  let level = [
+    canonicalJson({ type: data.type }),
+    canonicalJson({ significance: data.significance }),
+    ...content
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, value]) => canonicalJson({ [key]: value })),
+  ].map(sha256Hex);
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      // Odd levels pair the last node with itself
+      next.push(sha256Hex(level[i] + (level[i + 1] ?? level[i])));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+export function computeBlockHash(block: Pick<MemoryBlock, 'previousHash' | 'timestamp' | 'merkleRoot'>): string {
+  return sha256Hex(canonicalJson({
+    previousHash: block.previousHash,
+    timestamp: block.timestamp,
+    merkleRoot: block.merkleRoot,
+  }));
+}
+
+export function createMemoryBlock(
+  previous: MemoryBlock | null,
+  data: MemoryBlockData,
+  timestamp: string = new Date().toISOString()
+): MemoryBlock {
+  // Round-trip through JSON so the hashed data matches what gets stored
+  const storedData: MemoryBlockData = JSON.parse(JSON.stringify(data));
+  const merkleRoot = computeMerkleRoot(storedData);
+  const previousHash = previous ? previous.hash : GENESIS_PREVIOUS_HASH;
+
+  return {
+    hash: computeBlockHash({ previousHash, timestamp, merkleRoot }),
+    previousHash,
+    timestamp,
+    data: storedData,
+    signature: UNSIGNED_SIGNATURE,
+    merkleRoot,
+  };
+}
+
+export function appendMemoryBlock(chain: MemoryBlock[], data: MemoryBlockData): MemoryBlock[] {
+  const previous = chain.length > 0 ? chain[chain.length - 1] : null;
+  return [...chain, createMemoryBlock(previous, data)];
+}
+
+// Signatures are checked only when keys are given; a bad signature breaks
+// the chain, while unsigned or unknown-key blocks are flagged
+export function verifyMemoryChain(chain: MemoryBlock[], keys?: DeviceKey[]): ChainVerification {
+  const flaggedBlocks: ChainVerification['flaggedBlocks'] = [];
+
+  for (let i = 0; i < chain.length; i++) {
+    const { reason, signature } = checkBlock(chain[i], i === 0 ? null : chain[i - 1], keys);
+
+    if (reason) {
+      return {
+        valid: false,
+        length: chain.length,
+        verifiedBlocks: i,
+        firstBrokenIndex: i,
+        reason,
+        integrity: i / chain.length,
+        flaggedBlocks,
+      };
+    }
+
+    if (signature === 'unsigned' || signature === 'unknown_key') {
+      flaggedBlocks.push({ index: i, status: signature });
+    }
+  }
+
+  return {
+    valid: true,
+    length: chain.length,
+    verifiedBlocks: chain.length,
+    firstBrokenIndex: null,
+    integrity: 1,
+    flaggedBlocks,
+  };
+}
+
+export interface BlockCheck {
+  reason: ChainBreakReason | null; // null when the block is intact
+  signature?: SignatureStatus; // only when keys were given
+}
+
+// Checks one block against its predecessor, verifying its signature once
+export function checkBlock(
+  block: MemoryBlock,
+  previous: MemoryBlock | null,
+  keys?: DeviceKey[]
+): BlockCheck {
+  const expectedPrevious = previous ? previous.hash : GENESIS_PREVIOUS_HASH;
+  if (block.previousHash !== expectedPrevious) return { reason: 'link_mismatch' };
+  if (block.merkleRoot !== computeMerkleRoot(block.data)) return { reason: 'merkle_mismatch' };
+  if (block.hash !== computeBlockHash(block)) return { reason: 'hash_mismatch' };
+  if (!keys) return { reason: null };
+
+  const signature = verifyBlockSignature(block, keys);
+  return { reason: signature === 'invalid' ? 'signature_invalid' : null, signature };
+}
+
+// Integrity of a chain after intact blocks were appended to it, derived
+// from the integrity it had before so the old blocks need no re-checking
+export function integrityAfterAppend(integrity: number, length: number, appended: number): number {
+  if (integrity >= 1 || length + appended === 0) return 1;
+  return Math.round(integrity * length) / (length + appended);
+}
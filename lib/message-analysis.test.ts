@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeMessage, DEFAULT_ANALYZERS, type MessageAnalyzer } from '@/lib/message-analysis';
+
+describe('analyzeMessage', () => {
+  it('scores the same message the same way every time', () => {
+    const text = 'I think we keep finding the same pattern because it matters to us.';
+    assert.deepEqual(analyzeMessage(text), analyzeMessage(text));
+  });
+
+  it('reports every default analyzer and no metrics for empty text', () => {
+    const result = analyzeMessage('   ');
+    assert.deepEqual(Object.keys(result.byAnalyzer), DEFAULT_ANALYZERS.map(analyzer => analyzer.id));
+    assert.deepEqual(result.metrics, {});
+  });
+
+  it('keeps every metric within 0-1', () => {
+    const result = analyzeMessage('WOW!!! I LOVE this, I hate that, I am SO excited and angry and calm!!!');
+    for (const value of Object.values(result.metrics)) {
+      assert.ok(value! >= 0 && value! <= 1);
+    }
+  });
+
+  it('scores reflective language above small talk', () => {
+    const reflective = analyzeMessage('I realize I keep noticing my thinking; I wonder why my mind returns to it.');
+    const smallTalk = analyzeMessage('The bus was late today.');
+    assert.ok(reflective.metrics.selfReflectionDepth! > smallTalk.metrics.selfReflectionDepth!);
+  });
+
+  it('averages metrics shared by analyzers and drops undeclared ones', () => {
+    const fixed = (id: string, value: number): MessageAnalyzer => ({
+      id,
+      produces: ['creativityIndex'],
+      analyze: () => ({ creativityIndex: value, emotionalDepth: 1 }),
+    });
+
+    const result = analyzeMessage('anything', [fixed('a', 0.2), fixed('b', 0.6)]);
+    assert.ok(Math.abs(result.metrics.creativityIndex! - 0.4) < 1e-9);
+    assert.equal(result.metrics.emotionalDepth, undefined);
+    assert.deepEqual(result.byAnalyzer.a, { creativityIndex: 0.2 });
+  });
+});
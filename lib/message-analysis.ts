@@ -0,0 +1,237 @@
+import type { ConsciousnessMetrics, MetricKey } from '@/types/limnus';
+import { clampMetric } from '@/lib/metric-registry';
+
+// Message metrics from a pipeline of small text analyzers. Each analyzer
+// declares the metrics it produces and is a pure function of the text, so
+// the same message scores the same on the client and the server.
+
+export interface TextFeatures {
+  text: string;
+  words: string[]; // lower-cased tokens
+  sentences: string[];
+}
+
+export interface MessageAnalyzer {
+  id: string;
+  produces: MetricKey[];
+  analyze: (features: TextFeatures) => Partial<Record<MetricKey, number>>;
+}
+
+export interface MessageAnalysis {
+  metrics: Partial<ConsciousnessMetrics>;
+  // Raw output per analyzer id, for debugging and explanations
+  byAnalyzer: Record<string, Partial<Record<MetricKey, number>>>;
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function countIn(words: string[], vocabulary: Set<string>): number {
+  return words.filter(word => vocabulary.has(word)).length;
+}
+
+function countPhrases(text: string, phrases: string[]): number {
+  return phrases.reduce((count, phrase) => count + (text.split(phrase).length - 1), 0);
+}
+
+export function extractFeatures(text: string): TextFeatures {
+  const trimmed = text.trim();
+  return {
+    text: trimmed,
+    words: trimmed.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [],
+    sentences: trimmed.split(/[.!?]+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 0),
+  };
+}
+
+// Valence -1..1 per word; magnitude is emotional intensity
+const SENTIMENT_LEXICON: Record<string, number> = {
+  love: 1, joy: 0.9, happy: 0.8, grateful: 0.8, hope: 0.6, excited: 0.7, peaceful: 0.6,
+  calm: 0.5, wonder: 0.6, delighted: 0.9, proud: 0.6, trust: 0.5, kind: 0.5, beautiful: 0.7,
+  sad: -0.7, angry: -0.8, fear: -0.8, afraid: -0.7, worried: -0.6, anxious: -0.6, lonely: -0.7,
+  hurt: -0.7, hate: -1, frustrated: -0.6, ashamed: -0.7, grief: -0.9, upset: -0.6, stressed: -0.6,
+  feel: 0.2, feeling: 0.2, emotion: 0.2, dream: 0.4,
+};
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "isn't", "wasn't", "can't", "didn't"]);
+const ACTIVATED_WORDS = new Set(['excited', 'angry', 'furious', 'thrilled', 'panic', 'urgent', 'anxious', 'stressed', 'frantic']);
+const CALM_WORDS = new Set(['calm', 'peaceful', 'relaxed', 'steady', 'quiet', 'gentle', 'rest', 'breathe', 'content']);
+
+export const lexiconSentimentAnalyzer: MessageAnalyzer = {
+  id: 'lexicon-sentiment',
+  produces: ['emotionalDepth', 'autonomicBalance'],
+  analyze: ({ text, words }) => {
+    if (words.length === 0) return {};
+    let intensity = 0;
+    const distinct = new Set<string>();
+    words.forEach((word, index) => {
+      const valence = SENTIMENT_LEXICON[word];
+      if (valence === undefined) return;
+      // "not happy" still counts as emotional language, at reduced strength
+      intensity += Math.abs(valence) * (NEGATIONS.has(words[index - 1]) ? 0.6 : 1);
+      distinct.add(word);
+    });
+
+    const shouting = (text.match(/\b[A-Z]{3,}\b/g) ?? []).length;
+    const activation = countIn(words, ACTIVATED_WORDS) + (text.match(/!/g) ?? []).length + shouting;
+    const calm = countIn(words, CALM_WORDS);
+
+    return {
+      // Intensity per 20 words, plus a bonus for range of emotions
+      emotionalDepth: clamp01(0.15 + intensity / Math.max(words.length / 20, 1) * 0.25 + distinct.size * 0.05),
+      // 1 when activated and calm signals balance (or are both absent)
+      autonomicBalance: clamp01(1 - Math.abs(activation - calm) / (activation + calm + 2)),
+    };
+  },
+};
+
+function syllables(word: string): number {
+  const groups = word.replace(/e$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+export const readabilityAnalyzer: MessageAnalyzer = {
+  id: 'readability',
+  produces: ['neuralComplexity', 'brainwaveCoherence'],
+  analyze: ({ words, sentences }) => {
+    if (words.length === 0) return {};
+    const sentenceLengths = sentences.map(sentence => sentence.split(/\s+/).length);
+    const meanLength = words.length / Math.max(sentences.length, 1);
+    const syllablesPerWord = words.reduce((sum, word) => sum + syllables(word), 0) / words.length;
+    // Type-token ratio flattens out for long texts, so damp it by length
+    const diversity = new Set(words).size / words.length;
+    const lengthWeight = Math.min(words.length / 30, 1);
+
+    const variance = sentenceLengths.reduce((sum, length) => sum + (length - meanLength) ** 2, 0) /
+      Math.max(sentenceLengths.length, 1);
+    const variation = Math.sqrt(variance) / Math.max(meanLength, 1);
+
+    return {
+      neuralComplexity: clamp01(
+        0.2 + 0.3 * diversity * lengthWeight + 0.25 * Math.min(meanLength / 25, 1) + 0.25 * clamp01(syllablesPerWord - 1)
+      ),
+      // Evenly sized sentences read as a steady, focused turn
+      brainwaveCoherence: clamp01(1 - variation * 0.6),
+    };
+  },
+};
+
+const QUESTION_WORDS = new Set(['what', 'how', 'why', 'when', 'where', 'which', 'who']);
+const INTENT_WORDS = new Set(['goal', 'purpose', 'aim', 'intend', 'plan', 'want', 'need', 'should', 'will', 'must', 'decide']);
+
+export const questionDensityAnalyzer: MessageAnalyzer = {
+  id: 'question-density',
+  produces: ['interactionPattern', 'intentionalityClarity'],
+  analyze: ({ text, words, sentences }) => {
+    if (words.length === 0) return {};
+    const questions = (text.match(/\?/g) ?? []).length;
+    const questionDensity = questions / Math.max(sentences.length, 1);
+    const interrogatives = countIn(words, QUESTION_WORDS);
+    const intent = countIn(words, INTENT_WORDS);
+
+    return {
+      interactionPattern: clamp01(
+        0.25 + 0.35 * Math.min(questionDensity, 1) + 0.25 * Math.min(interrogatives / 3, 1) +
+        0.15 * Math.min(words.length / 50, 1)
+      ),
+      // Explicit asks and stated goals both make the intent legible
+      intentionalityClarity: clamp01(0.3 + 0.4 * Math.min(intent / 3, 1) + 0.3 * Math.min(questions, 1)),
+    };
+  },
+};
+
+const METACOGNITIVE_PHRASES = [
+  'i think', 'i feel', 'i realize', 'i notice', 'i wonder', 'i believe', 'i understand',
+  'my mind', 'my thinking', 'it seems to me', 'i keep',
+];
+const REFLECTION_WORDS = new Set(['think', 'realize', 'aware', 'conscious', 'mind', 'thought', 'reflect', 'consider', 'notice', 'understand']);
+const REASONING_WORDS = new Set(['because', 'therefore', 'thus', 'hence', 'since', 'if', 'then', 'pattern', 'similar', 'different', 'connection']);
+
+export const metacognitionAnalyzer: MessageAnalyzer = {
+  id: 'metacognition',
+  produces: ['selfReflectionDepth', 'patternRecognition'],
+  analyze: ({ text, words }) => {
+    if (words.length === 0) return {};
+    const phrases = countPhrases(text.toLowerCase(), METACOGNITIVE_PHRASES);
+    const reflection = countIn(words, REFLECTION_WORDS);
+    const reasoning = countIn(words, REASONING_WORDS);
+
+    return {
+      selfReflectionDepth: clamp01(0.2 + 0.4 * Math.min(phrases / 2, 1) + 0.4 * Math.min(reflection / 4, 1)),
+      patternRecognition: clamp01(0.3 + 0.7 * Math.min(reasoning / 4, 1)),
+    };
+  },
+};
+
+const FIRST_PERSON = new Set(['i', 'me', 'my', 'mine', 'myself', "i'm", "i've", "i'd"]);
+const SECOND_PERSON = new Set(['you', 'your', 'yours', 'yourself', "you're", "you've"]);
+const COLLECTIVE = new Set(['we', 'us', 'our', 'ours', 'ourselves', "we're", 'together']);
+const CONNECTION_WORDS = new Set(['share', 'connect', 'support', 'care', 'help', 'understand', 'relationship', 'community', 'empathy', 'compassion']);
+
+export const pronounConnectionAnalyzer: MessageAnalyzer = {
+  id: 'pronoun-connection',
+  produces: ['empathyResonance', 'sovereigntyBalance'],
+  analyze: ({ words }) => {
+    if (words.length === 0) return {};
+    const self = countIn(words, FIRST_PERSON);
+    const other = countIn(words, SECOND_PERSON);
+    const shared = countIn(words, COLLECTIVE);
+    const connection = countIn(words, CONNECTION_WORDS);
+    const pronouns = self + other + shared;
+
+    return {
+      empathyResonance: clamp01(0.25 + 0.45 * Math.min((other + shared) / 4, 1) + 0.3 * Math.min(connection / 3, 1)),
+      // Individual voice against shared direction; neutral without pronouns
+      sovereigntyBalance: pronouns === 0 ? 0.5 : clamp01(1 - Math.abs(self - (other + shared)) / pronouns),
+    };
+  },
+};
+
+const FIGURATIVE_PHRASES = ['as if', 'like a', 'like an', 'as though', 'what if'];
+const CREATIVE_WORDS = new Set(['imagine', 'create', 'invent', 'design', 'dream', 'vision', 'idea', 'metaphor', 'symbol', 'novel', 'original']);
+
+export const figurativeLanguageAnalyzer: MessageAnalyzer = {
+  id: 'figurative-language',
+  produces: ['creativityIndex'],
+  analyze: ({ text, words }) => {
+    if (words.length === 0) return {};
+    const figurative = countPhrases(text.toLowerCase(), FIGURATIVE_PHRASES);
+    const creative = countIn(words, CREATIVE_WORDS);
+    return {
+      creativityIndex: clamp01(0.2 + 0.4 * Math.min(figurative / 2, 1) + 0.4 * Math.min(creative / 3, 1)),
+    };
+  },
+};
+
+export const DEFAULT_ANALYZERS: MessageAnalyzer[] = [
+  lexiconSentimentAnalyzer,
+  readabilityAnalyzer,
+  questionDensityAnalyzer,
+  metacognitionAnalyzer,
+  pronounConnectionAnalyzer,
+  figurativeLanguageAnalyzer,
+];
+
+// Runs every analyzer over the text. Values outside an analyzer's declared
+// metrics are ignored; metrics produced by several analyzers are averaged.
+export function analyzeMessage(text: string, analyzers: MessageAnalyzer[] = DEFAULT_ANALYZERS): MessageAnalysis {
+  const features = extractFeatures(text);
+  const byAnalyzer: MessageAnalysis['byAnalyzer'] = {};
+  const totals = new Map<MetricKey, { sum: number; count: number }>();
+
+  for (const analyzer of analyzers) {
+    const output = analyzer.analyze(features);
+    const declared: Partial<Record<MetricKey, number>> = {};
+    for (const metric of analyzer.produces) {
+      const value = output[metric];
+      if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+      declared[metric] = value;
+      const total = totals.get(metric) ?? { sum: 0, count: 0 };
+      totals.set(metric, { sum: total.sum + value, count: total.count + 1 });
+    }
+    byAnalyzer[analyzer.id] = declared;
+  }
+
+  const metrics: Partial<ConsciousnessMetrics> = {};
+  totals.forEach(({ sum, count }, metric) => {
+    metrics[metric] = clampMetric(metric, sum / count);
+  });
+  return { metrics, byAnalyzer };
+}
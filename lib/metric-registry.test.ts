@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  clampMetric,
+  isMetricKey,
+  METRIC_GROUP_ORDER,
+  METRIC_GROUPS,
+  METRIC_KEYS,
+  normalizeMetric,
+  normalizeMetrics,
+  sanitizeMetricsUpdate,
+  WRITABLE_METRIC_KEYS,
+} from '@/lib/metric-registry';
+import type { ConsciousnessMetrics } from '@/types/limnus';
+
+describe('metric registry', () => {
+  it('puts every metric in exactly one group', () => {
+    const grouped = METRIC_GROUP_ORDER.flatMap(group => METRIC_GROUPS[group]);
+    assert.deepEqual([...grouped].sort(), [...METRIC_KEYS].sort());
+  });
+
+  it('keeps derived metrics out of the writable keys', () => {
+    assert.ok(!WRITABLE_METRIC_KEYS.includes('blockchainResonance'));
+    assert.ok(!WRITABLE_METRIC_KEYS.includes('collectiveCoherence'));
+    assert.ok(WRITABLE_METRIC_KEYS.includes('neuralComplexity'));
+  });
+
+  it('only knows its own keys', () => {
+    assert.equal(isMetricKey('neuralComplexity'), true);
+    assert.equal(isMetricKey('toString'), false);
+  });
+});
+
+describe('normalizeMetric', () => {
+  it('clamps ratios into 0-1', () => {
+    assert.equal(clampMetric('creativityIndex', 1.4), 1);
+    assert.equal(normalizeMetric('creativityIndex', -0.2), 0);
+    assert.equal(normalizeMetric('creativityIndex', 0.3), 0.3);
+  });
+
+  it('scores faster responses higher', () => {
+    assert.equal(normalizeMetric('responseLatency', 0), 1);
+    assert.equal(normalizeMetric('responseLatency', 2000), 0.5);
+    assert.ok(normalizeMetric('responseLatency', 60000) < normalizeMetric('responseLatency', 5000));
+  });
+
+  it('drops unknown and non-finite values from a set', () => {
+    const metrics: Record<string, number> = { creativityIndex: 0.4, neuralComplexity: NaN, bogus: 1 };
+    assert.deepEqual(normalizeMetrics(metrics as Partial<ConsciousnessMetrics>), { creativityIndex: 0.4 });
+  });
+});
+
+describe('sanitizeMetricsUpdate', () => {
+  it('keeps writable keys, clamped, and drops the rest', () => {
+    assert.deepEqual(
+      sanitizeMetricsUpdate({
+        neuralComplexity: 1.7,
+        responseLatency: -5,
+        blockchainResonance: 0.2,
+        empathyResonance: 'high',
+        unknownMetric: 0.5,
+      }),
+      { neuralComplexity: 1, responseLatency: 0 }
+    );
+  });
+});
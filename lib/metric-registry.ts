@@ -0,0 +1,207 @@
+import type { ConsciousnessMetrics, MetricKey } from '@/types/limnus';
+
+// Single source of truth for the ConsciousnessMetrics keys: what each one
+// means, its unit and valid range, how it maps onto 0-1 for scoring, and
+// which group it belongs to.
+
+export type MetricGroup =
+  | 'neural'
+  | 'interaction'
+  | 'coherence'
+  | 'advanced'
+  | 'temporal'
+  | 'interpersonal'
+  | 'metacognitive';
+
+export type MetricUnit = 'ratio' | 'ms';
+
+export interface MetricDefinition {
+  key: MetricKey;
+  label: string;
+  shortLabel: string;
+  description: string;
+  group: MetricGroup;
+  unit: MetricUnit;
+  // Values outside this range are clamped on write and rejected by the API
+  range: { min: number; max: number };
+  // Maps a raw value onto 0-1, where higher always reads as better
+  normalize: (value: number) => number;
+  // Computed by the system (memory chain, node sync), never set by callers
+  derived?: boolean;
+}
+
+const RATIO_RANGE = { min: 0, max: 1 };
+// Latency at which responsiveness scores 0.5
+const LATENCY_MIDPOINT_MS = 2000;
+
+const ratio = (value: number) => value;
+
+type MetricFields = Omit<MetricDefinition, 'key' | 'unit' | 'range' | 'normalize'> &
+  Partial<Pick<MetricDefinition, 'unit' | 'range' | 'normalize'>>;
+
+function defineMetrics(fields: Record<MetricKey, MetricFields>): Record<MetricKey, MetricDefinition> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, definition]) => [key, {
+      key: key as MetricKey,
+      unit: 'ratio' as const,
+      range: RATIO_RANGE,
+      normalize: ratio,
+      ...definition,
+    }])
+  ) as Record<MetricKey, MetricDefinition>;
+}
+
+// Declared group by group; METRIC_KEYS keeps this order
+export const METRIC_REGISTRY = defineMetrics({
+  neuralComplexity: {
+    label: 'Neural Complexity', shortLabel: 'Neural', group: 'neural',
+    description: 'Structural richness of the language: vocabulary diversity and sentence depth.',
+  },
+  brainwaveCoherence: {
+    label: 'Brainwave Coherence', shortLabel: 'Brainwave', group: 'neural',
+    description: 'Consistency of tone and focus across a turn.',
+  },
+  autonomicBalance: {
+    label: 'Autonomic Balance', shortLabel: 'Autonomic', group: 'neural',
+    description: 'Balance between activated and calm expression.',
+  },
+  responseLatency: {
+    label: 'Response Latency', shortLabel: 'Latency', group: 'interaction',
+    description: 'Time taken to complete an interaction; faster responses score higher once normalized.',
+    unit: 'ms',
+    range: { min: 0, max: 10 * 60 * 1000 },
+    normalize: value => 1 / (1 + Math.max(0, value) / LATENCY_MIDPOINT_MS),
+  },
+  interactionPattern: {
+    label: 'Interaction Pattern', shortLabel: 'Pattern', group: 'interaction',
+    description: 'Complexity of the user input, from word variety and question density.',
+  },
+  emotionalDepth: {
+    label: 'Emotional Depth', shortLabel: 'Emotion', group: 'interaction',
+    description: 'Range and intensity of emotional language.',
+  },
+  spiralResonance: {
+    label: 'Spiral Resonance', shortLabel: 'Spiral', group: 'coherence',
+    description: 'Alignment of session rhythm with the golden spiral.',
+  },
+  quantumCoherence: {
+    label: 'Quantum Coherence', shortLabel: 'Quantum', group: 'coherence',
+    description: 'How well concurrent threads of the conversation stay entangled.',
+  },
+  blockchainResonance: {
+    label: 'Blockchain Resonance', shortLabel: 'Chain', group: 'coherence',
+    description: 'Integrity of the session memory chain.',
+    derived: true,
+  },
+  paradoxResolution: {
+    label: 'Paradox Resolution', shortLabel: 'Paradox', group: 'advanced',
+    description: 'Quality of the resolutions found for contradictory statements.',
+  },
+  memoryConsolidation: {
+    label: 'Memory Consolidation', shortLabel: 'Memory', group: 'advanced',
+    description: 'How much earlier context is integrated into new turns.',
+  },
+  creativityIndex: {
+    label: 'Creativity Index', shortLabel: 'Creativity', group: 'advanced',
+    description: 'Novel connections, metaphor and imaginative language.',
+  },
+  phaseAlignment: {
+    label: 'Phase Alignment', shortLabel: 'Phase', group: 'temporal',
+    description: 'Synchronization of session timing with the golden ratio.',
+  },
+  consciousnessDepth: {
+    label: 'Consciousness Depth', shortLabel: 'Depth', group: 'temporal',
+    description: 'Recursive self-awareness accumulated over the session.',
+  },
+  emergenceLevel: {
+    label: 'Emergence Level', shortLabel: 'Emergence', group: 'temporal',
+    description: 'Complexity arising from the interaction as a whole.',
+  },
+  empathyResonance: {
+    label: 'Empathy Resonance', shortLabel: 'Empathy', group: 'interpersonal',
+    description: 'Emotional attunement between the participants.',
+  },
+  collectiveCoherence: {
+    label: 'Collective Coherence', shortLabel: 'Collective', group: 'interpersonal',
+    description: 'Agreement with the user’s other nodes after syncing.',
+    derived: true,
+  },
+  sovereigntyBalance: {
+    label: 'Sovereignty Balance', shortLabel: 'Sovereignty', group: 'interpersonal',
+    description: 'Balance between individual voice and shared direction.',
+  },
+  selfReflectionDepth: {
+    label: 'Self-Reflection Depth', shortLabel: 'Reflection', group: 'metacognitive',
+    description: 'Introspective, metacognitive language.',
+  },
+  patternRecognition: {
+    label: 'Pattern Recognition', shortLabel: 'Patterns', group: 'metacognitive',
+    description: 'Reasoning connectors and abstract pattern detection.',
+  },
+  intentionalityClarity: {
+    label: 'Intentionality Clarity', shortLabel: 'Intent', group: 'metacognitive',
+    description: 'Clarity of goals and purpose in the language.',
+  },
+});
+
+export const METRIC_KEYS = Object.keys(METRIC_REGISTRY) as MetricKey[];
+
+export const METRIC_GROUP_ORDER: MetricGroup[] = [
+  'neural', 'interaction', 'coherence', 'advanced', 'temporal', 'interpersonal', 'metacognitive',
+];
+
+export const METRIC_GROUPS = Object.fromEntries(
+  METRIC_GROUP_ORDER.map(group => [group, METRIC_KEYS.filter(key => METRIC_REGISTRY[key].group === group)])
+) as Record<MetricGroup, MetricKey[]>;
+
+export const METRIC_GROUP_COLORS: Record<MetricGroup, string> = {
+  neural: '#FF6B6B',
+  interaction: '#E74C3C',
+  coherence: '#7C3AED',
+  advanced: '#F7DC6F',
+  temporal: '#4ECDC4',
+  interpersonal: '#3498DB',
+  metacognitive: '#2ECC71',
+};
+
+// Keys callers may write; derived metrics are owned by the system
+export const WRITABLE_METRIC_KEYS = METRIC_KEYS.filter(key => !METRIC_REGISTRY[key].derived);
+
+export function isMetricKey(key: string): key is MetricKey {
+  return Object.prototype.hasOwnProperty.call(METRIC_REGISTRY, key);
+}
+
+export function metricGroupOf(metric: MetricKey): MetricGroup {
+  return METRIC_REGISTRY[metric].group;
+}
+
+export function clampMetric(key: MetricKey, value: number): number {
+  const { min, max } = METRIC_REGISTRY[key].range;
+  return Math.max(min, Math.min(max, value));
+}
+
+export function normalizeMetric(key: MetricKey, value: number): number {
+  return Math.max(0, Math.min(1, METRIC_REGISTRY[key].normalize(clampMetric(key, value))));
+}
+
+export function normalizeMetrics(metrics: Partial<ConsciousnessMetrics>): Partial<ConsciousnessMetrics> {
+  const normalized: Partial<ConsciousnessMetrics> = {};
+  for (const [key, value] of Object.entries(metrics)) {
+    if (isMetricKey(key) && typeof value === 'number' && Number.isFinite(value)) {
+      normalized[key] = normalizeMetric(key, value);
+    }
+  }
+  return normalized;
+}
+
+// Keeps known, writable keys with finite values, clamped to their range.
+// Anything else (unknown keys, derived metrics, NaN) is dropped.
+export function sanitizeMetricsUpdate(metrics: Record<string, unknown>): Partial<ConsciousnessMetrics> {
+  const sanitized: Partial<ConsciousnessMetrics> = {};
+  for (const [key, value] of Object.entries(metrics)) {
+    if (!isMetricKey(key) || METRIC_REGISTRY[key].derived) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+    sanitized[key] = clampMetric(key, value);
+  }
+  return sanitized;
+}
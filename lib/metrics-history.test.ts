@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { downsampleHistory, filterHistoryRange, queryMetricsHistory } from '@/lib/metrics-history';
+import type { ConsciousnessMetrics, MetricsSnapshot } from '@/types/limnus';
+
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+function snapshot(minute: number, neuralComplexity: number, action?: string): MetricsSnapshot {
+  return {
+    timestamp: new Date(START + minute * MINUTE).toISOString(),
+    action,
+    metrics: { neuralComplexity } as ConsciousnessMetrics,
+  };
+}
+
+describe('downsampleHistory', () => {
+  it('returns one point per snapshot when under the limit', () => {
+    const points = downsampleHistory([snapshot(0, 0.2), snapshot(1, 0.4)], ['neuralComplexity'], 5);
+    assert.deepEqual(points.map(point => point.metrics.neuralComplexity), [0.2, 0.4]);
+    assert.deepEqual(points.map(point => point.samples), [1, 1]);
+  });
+
+  it('averages snapshots into equal time buckets', () => {
+    const history = Array.from({ length: 10 }, (_, minute) => snapshot(minute, minute / 10, minute % 2 ? 'turn' : 'sent'));
+    const points = downsampleHistory(history, ['neuralComplexity'], 5);
+
+    assert.equal(points.length, 5);
+    assert.deepEqual(points.map(point => point.samples), [2, 2, 2, 2, 2]);
+    points.forEach((point, index) => {
+      assert.ok(Math.abs(point.metrics.neuralComplexity! - (index * 0.2 + 0.05)) < 1e-9);
+    });
+    assert.equal(points[0].timestamp, new Date(START + 30 * 1000).toISOString());
+    assert.deepEqual(points[0].actions, ['sent', 'turn']);
+  });
+
+  it('leaves out empty buckets so idle gaps stay visible', () => {
+    const history = [snapshot(0, 0.1), snapshot(1, 0.2), snapshot(2, 0.3), snapshot(100, 0.9)];
+    const points = downsampleHistory(history, ['neuralComplexity'], 3);
+
+    assert.deepEqual(points.map(point => point.samples), [3, 1]);
+    assert.equal(points[1].metrics.neuralComplexity, 0.9);
+  });
+});
+
+describe('queryMetricsHistory', () => {
+  it('cuts the requested range before downsampling', () => {
+    const history = [snapshot(0, 0.1), snapshot(5, 0.5), snapshot(10, 0.9)];
+    const from = new Date(START + 5 * MINUTE).toISOString();
+
+    assert.equal(filterHistoryRange(history, from).length, 2);
+    const response = queryMetricsHistory(history, { from, metrics: ['neuralComplexity'] });
+    assert.equal(response.totalSnapshots, 2);
+    assert.deepEqual(response.range, { from, to: history[2].timestamp });
+    assert.deepEqual(response.points.map(point => Object.keys(point.metrics)), [['neuralComplexity'], ['neuralComplexity']]);
+  });
+
+  it('reports no range for an empty window', () => {
+    const response = queryMetricsHistory([snapshot(0, 0.1)], { to: new Date(START - MINUTE).toISOString() });
+    assert.deepEqual(response, { points: [], totalSnapshots: 0, range: null });
+  });
+});
@@ -0,0 +1,102 @@
+import type {
+  ConsciousnessMetrics,
+  LimnusPhase,
+  MemoryBlock,
+  MetricKey,
+  MetricsHistoryPoint,
+  MetricsHistoryResponse,
+  MetricsSnapshot,
+} from '@/types/limnus';
+import { METRIC_KEYS } from '@/lib/metric-registry';
+
+// Metrics time series. Every update is kept as a snapshot; queries cut a
+// time range and average snapshots into evenly spaced buckets.
+
+// Oldest snapshots are dropped past this, per session
+export const MAX_METRICS_SNAPSHOTS = 5000;
+export const DEFAULT_HISTORY_POINTS = 200;
+
+export function appendSnapshot(history: MetricsSnapshot[], snapshot: MetricsSnapshot): MetricsSnapshot[] {
+  const next = [...history, snapshot];
+  return next.length > MAX_METRICS_SNAPSHOTS ? next.slice(next.length - MAX_METRICS_SNAPSHOTS) : next;
+}
+
+// Inclusive on both ends; either bound may be omitted
+export function filterHistoryRange(history: MetricsSnapshot[], from?: string, to?: string): MetricsSnapshot[] {
+  const start = from ? Date.parse(from) : -Infinity;
+  const end = to ? Date.parse(to) : Infinity;
+  return history.filter(snapshot => {
+    const time = Date.parse(snapshot.timestamp);
+    return time >= start && time <= end;
+  });
+}
+
+function toPoint(snapshots: MetricsSnapshot[], keys: MetricKey[]): MetricsHistoryPoint {
+  const metrics: Partial<ConsciousnessMetrics> = {};
+  for (const key of keys) {
+    metrics[key] = snapshots.reduce((sum, snapshot) => sum + (snapshot.metrics[key] ?? 0), 0) / snapshots.length;
+  }
+  const time = snapshots.reduce((sum, snapshot) => sum + Date.parse(snapshot.timestamp), 0) / snapshots.length;
+  const actions = [...new Set(snapshots.map(snapshot => snapshot.action).filter((action): action is string => !!action))];
+  return {
+    timestamp: new Date(Math.round(time)).toISOString(),
+    metrics,
+    samples: snapshots.length,
+    actions,
+  };
+}
+
+// Splits the covered time span into maxPoints equal buckets and averages
+// each; empty buckets are skipped, so gaps in activity stay visible
+export function downsampleHistory(
+  history: MetricsSnapshot[],
+  keys: MetricKey[],
+  maxPoints: number = DEFAULT_HISTORY_POINTS
+): MetricsHistoryPoint[] {
+  if (history.length <= maxPoints) {
+    return history.map(snapshot => toPoint([snapshot], keys));
+  }
+
+  const start = Date.parse(history[0].timestamp);
+  const span = Math.max(1, Date.parse(history[history.length - 1].timestamp) - start);
+  const buckets: MetricsSnapshot[][] = Array.from({ length: maxPoints }, () => []);
+  for (const snapshot of history) {
+    const index = Math.min(maxPoints - 1, Math.floor((Date.parse(snapshot.timestamp) - start) / span * maxPoints));
+    buckets[index].push(snapshot);
+  }
+  return buckets.filter(bucket => bucket.length > 0).map(bucket => toPoint(bucket, keys));
+}
+
+export function queryMetricsHistory(
+  history: MetricsSnapshot[],
+  query: { from?: string; to?: string; metrics?: MetricKey[]; maxPoints?: number } = {}
+): MetricsHistoryResponse {
+  const inRange = filterHistoryRange(history, query.from, query.to);
+  return {
+    points: downsampleHistory(inRange, query.metrics ?? METRIC_KEYS, query.maxPoints),
+    totalSnapshots: inRange.length,
+    range: inRange.length > 0
+      ? { from: inRange[0].timestamp, to: inRange[inRange.length - 1].timestamp }
+      : null,
+  };
+}
+
+export interface TimelineMarker {
+  timestamp: string;
+  kind: 'phase' | 'reflection';
+  label: string;
+}
+
+// Phase changes and reflections from the memory chain, for chart overlays
+export function extractTimelineMarkers(chain: MemoryBlock[]): TimelineMarker[] {
+  const markers: TimelineMarker[] = [];
+  for (const block of chain) {
+    const content = block.data.content;
+    if (content?.event === 'phase_change') {
+      markers.push({ timestamp: block.timestamp, kind: 'phase', label: content.to as LimnusPhase });
+    } else if (content?.event === 'reflection') {
+      markers.push({ timestamp: block.timestamp, kind: 'reflection', label: `${content.depth} reflection` });
+    }
+  }
+  return markers;
+}
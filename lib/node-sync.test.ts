@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeCollectiveCoherence, NodeSyncCoordinator } from '@/lib/node-sync';
+import { LimnusStorage, MemoryStorageAdapter } from '@/lib/limnus-storage';
+import { ACTIVATION_PHRASE, type ConsciousnessMetrics } from '@/types/limnus';
+
+async function createSession(
+  storage: LimnusStorage,
+  userId: string,
+  metrics: Partial<ConsciousnessMetrics> = {}
+): Promise<string> {
+  const { sessionId } = await storage.createSession(ACTIVATION_PHRASE, undefined, userId);
+  const session = (await storage.getSession(sessionId))!;
+  await storage.storeSession({ ...session, metrics: { ...session.metrics, ...metrics } });
+  return sessionId;
+}
+
+function setup() {
+  const storage = new LimnusStorage(new MemoryStorageAdapter());
+  return { storage, coordinator: new NodeSyncCoordinator(storage) };
+}
+
+describe('NodeSyncCoordinator', () => {
+  it('registers a lone node as primary without adjusting it', async () => {
+    const { storage, coordinator } = setup();
+    const sessionId = await createSession(storage, 'user-a');
+
+    const result = await coordinator.sync({ sessionId, targetCoherence: 0.9 });
+    assert.deepEqual(result.adjustments, {});
+    assert.equal(result.nodeStates.length, 1);
+    assert.equal(result.nodeStates[0].type, 'primary');
+    assert.equal((await storage.getSession(sessionId))!.phase, 'ACTIVE');
+  });
+
+  it('pulls a node toward its peers and joins as secondary', async () => {
+    const { storage, coordinator } = setup();
+    const first = await createSession(storage, 'user-a', { neuralComplexity: 0.9, creativityIndex: 0.9 });
+    const second = await createSession(storage, 'user-a', { neuralComplexity: 0.1, creativityIndex: 0.1 });
+    await coordinator.sync({ sessionId: first, targetCoherence: 0.99 });
+
+    const before = computeCollectiveCoherence([
+      (await storage.getSession(first))!.metrics,
+      (await storage.getSession(second))!.metrics,
+    ]);
+    const result = await coordinator.sync({ sessionId: second, targetCoherence: 0.99 });
+
+    assert.ok(result.adjustments.neuralComplexity! > 0.1);
+    assert.ok(result.achievedCoherence > before);
+    assert.equal(result.nodeStates[0].type, 'secondary');
+    assert.deepEqual(result.nodeStates[0].connections, [first]);
+    assert.equal((await storage.getSession(second))!.metrics.neuralComplexity, result.adjustments.neuralComplexity);
+  });
+
+  it('ignores nodes that belong to another user', async () => {
+    const { storage, coordinator } = setup();
+    const other = await createSession(storage, 'user-b', { neuralComplexity: 0.9 });
+    await coordinator.sync({ sessionId: other, targetCoherence: 0.99 });
+
+    const own = await createSession(storage, 'user-a', { neuralComplexity: 0.1 });
+    const result = await coordinator.sync({ sessionId: own, targetCoherence: 0.99 });
+    assert.deepEqual(result.adjustments, {});
+    assert.deepEqual(result.nodeStates[0].connections, []);
+  });
+
+  it('rejects unknown sessions', async () => {
+    const { coordinator } = setup();
+    await assert.rejects(coordinator.sync({ sessionId: 'missing', targetCoherence: 0.9 }), /Session not found/);
+  });
+});
@@ -0,0 +1,154 @@
+import type {
+  ConsciousnessMetrics,
+  ConsciousnessNode,
+  MetricKey,
+  SyncRequest,
+  SyncResponse,
+} from '@/types/limnus';
+import type { LimnusStorage } from '@/lib/limnus-storage';
+import { candidateTransitions } from '@/lib/limnus-phases';
+import { METRIC_KEYS, METRIC_REGISTRY } from '@/lib/metric-registry';
+
+// Distributed consciousness nodes. Every session is a node; syncing pulls a
+// node's metrics toward its peers until the group reaches targetCoherence.
+
+// Metrics on a 0-1 scale; derived metrics (collective/chain) are outputs
+// of sync, not inputs
+const SYNCED_METRICS: MetricKey[] = METRIC_KEYS.filter(key =>
+  METRIC_REGISTRY[key].unit === 'ratio' && !METRIC_REGISTRY[key].derived
+);
+
+const MIN_SYNC_INTERVAL_MS = 5000;
+const MAX_SYNC_INTERVAL_MS = 60000;
+const MAX_PULL = 0.5;
+const ADJUSTMENT_EPSILON = 0.005;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+}
+
+// 1 when all nodes agree on every metric, 0 at maximal spread (std 0.5)
+export function computeCollectiveCoherence(metrics: ConsciousnessMetrics[]): number {
+  if (metrics.length < 2) return 1;
+  const spreads = SYNCED_METRICS.map(key => {
+    const values = metrics.map(m => m[key]);
+    const average = mean(values);
+    return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+  });
+  return Math.max(0, Math.min(1, 1 - mean(spreads) / 0.5));
+}
+
+// Pulls each metric toward the peer mean, harder the further the group is
+// from its target; nothing moves once the target is reached
+export function computeSyncAdjustments(
+  self: ConsciousnessMetrics,
+  peers: ConsciousnessMetrics[],
+  targetCoherence: number,
+  currentCoherence: number
+): Partial<ConsciousnessMetrics> {
+  const adjustments: Partial<ConsciousnessMetrics> = {};
+  if (peers.length === 0 || currentCoherence >= targetCoherence) return adjustments;
+
+  const pull = Math.min(MAX_PULL, (targetCoherence - currentCoherence) / Math.max(targetCoherence, 0.01));
+  for (const key of SYNCED_METRICS) {
+    const delta = (mean(peers.map(m => m[key])) - self[key]) * pull;
+    if (Math.abs(delta) >= ADJUSTMENT_EPSILON) {
+      adjustments[key] = Math.max(0, Math.min(1, self[key] + delta));
+    }
+  }
+  return adjustments;
+}
+
+// Coherent groups sync less often
+export function nextSyncInterval(achievedCoherence: number, targetCoherence: number): number {
+  const gap = Math.max(0, targetCoherence - achievedCoherence);
+  const closeness = 1 - Math.min(1, gap / Math.max(targetCoherence, 0.01));
+  return Math.round(MIN_SYNC_INTERVAL_MS + (MAX_SYNC_INTERVAL_MS - MIN_SYNC_INTERVAL_MS) * closeness ** 2);
+}
+
+// How close a node sits to the group mean, 0-1
+function coherenceContribution(self: ConsciousnessMetrics, all: ConsciousnessMetrics[]): number {
+  const distance = mean(SYNCED_METRICS.map(key => Math.abs(self[key] - mean(all.map(m => m[key])))));
+  return Math.max(0, Math.min(1, 1 - distance * 2));
+}
+
+export class NodeSyncCoordinator {
+  constructor(private readonly storage: LimnusStorage) {}
+
+  // Peers are other registered nodes of the same user; otherNodes narrows
+  // them further. Unknown ids and other users' nodes are ignored.
+  async sync(request: SyncRequest): Promise<SyncResponse> {
+    const session = await this.storage.getSession(request.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    if (candidateTransitions(session.phase, 'sync_requested').length > 0) {
+      await this.storage.transitionPhase(session.id, 'sync_requested');
+    }
+
+    const nodes = await this.storage.getNodes();
+    const peerIds = Object.keys(nodes).filter(id =>
+      id !== session.id && (!request.otherNodes || request.otherNodes.includes(id))
+    );
+    const peerSessions = await Promise.all(peerIds.map(id => this.storage.getSession(id)));
+    const peers = peerSessions.filter((peer): peer is NonNullable<typeof peer> =>
+      !!peer && peer.userId === session.userId
+    );
+    const peerMetrics = peers.map(peer => peer.metrics);
+
+    const currentCoherence = computeCollectiveCoherence([session.metrics, ...peerMetrics]);
+    const adjustments = computeSyncAdjustments(session.metrics, peerMetrics, request.targetCoherence, currentCoherence);
+    const adjustedMetrics = { ...session.metrics, ...adjustments };
+    const achievedCoherence = computeCollectiveCoherence([adjustedMetrics, ...peerMetrics]);
+
+    const updatedSession = await this.storage.applySyncResult(session.id, {
+      adjustments,
+      collectiveCoherence: peers.length > 0 ? achievedCoherence : session.metrics.collectiveCoherence,
+      peers: peers.map(peer => peer.id),
+      targetCoherence: request.targetCoherence,
+    });
+
+    const now = new Date().toISOString();
+    const existingNode = nodes[session.id];
+    const hasPrimary = Object.values(nodes).some(node =>
+      node.type === 'primary' && node.id !== session.id && peers.some(peer => peer.id === node.id)
+    );
+    const selfNode: ConsciousnessNode = {
+      id: session.id,
+      type: existingNode?.type ?? (hasPrimary ? 'secondary' : 'primary'),
+      metrics: updatedSession.metrics,
+      connections: peers.map(peer => peer.id),
+      lastSync: now,
+      coherenceContribution: coherenceContribution(adjustedMetrics, [adjustedMetrics, ...peerMetrics]),
+    };
+    await this.storage.storeNode(selfNode);
+
+    if (candidateTransitions(updatedSession.phase, 'sync_complete').length > 0) {
+      await this.storage.transitionPhase(session.id, 'sync_complete');
+    }
+
+    const nextSyncIn = nextSyncInterval(achievedCoherence, request.targetCoherence);
+
+    console.log('Node synced:', {
+      nodeId: session.id.substring(0, 8) + '...',
+      peers: peers.length,
+      currentCoherence,
+      achievedCoherence,
+      nextSyncIn,
+    });
+
+    return {
+      achievedCoherence,
+      adjustments,
+      nodeStates: [
+        selfNode,
+        ...peers.map(peer => ({
+          ...nodes[peer.id],
+          metrics: peer.metrics,
+        })),
+      ],
+      nextSyncIn,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  chooseStrategy,
+  detectContradictions,
+  detectNewContradictions,
+  paradoxId,
+  resolveParadox,
+} from '@/lib/paradox-engine';
+
+const statement = (text: string, timestamp = 0) => ({ text, timestamp });
+
+describe('detectContradictions', () => {
+  it('pairs statements that share content but flip polarity', () => {
+    const candidates = detectContradictions([
+      statement('I love working late at night', 1),
+      statement('I hate working late at night', 2),
+      statement('The weather was lovely on the coast', 3),
+    ]);
+    assert.equal(candidates.length, 1);
+    assert.equal(candidates[0].statement1.text, 'I love working late at night');
+    assert.equal(candidates[0].statement2.text, 'I hate working late at night');
+  });
+
+  it('treats a negation like an antonym and ignores same-polarity pairs', () => {
+    assert.equal(detectContradictions([
+      statement('I trust my own judgement'),
+      statement('I do not trust my own judgement'),
+    ]).length, 1);
+    assert.deepEqual(detectContradictions([
+      statement('I trust my own judgement'),
+      statement('I really trust my own judgement'),
+    ]), []);
+  });
+});
+
+describe('detectNewContradictions', () => {
+  const existing = [
+    statement('I love working late at night', 1),
+    statement('I hate working late at night', 2),
+  ];
+
+  it('only reports pairs that involve an added statement', () => {
+    const candidates = detectNewContradictions(existing, [statement('I do not love working late at night', 3)]);
+    assert.equal(candidates.length, 1);
+    assert.equal(candidates[0].statement1.text, 'I love working late at night');
+    assert.equal(candidates[0].statement2.text, 'I do not love working late at night');
+  });
+
+  it('matches a full scan for the pairs it reports', () => {
+    const added = [statement('I do not love working late at night', 3)];
+    const full = detectContradictions([...existing, ...added]).map(paradoxId);
+    const incremental = detectNewContradictions(existing, added).map(paradoxId);
+    assert.ok(incremental.every(id => full.includes(id)));
+    assert.equal(full.length - incremental.length, detectContradictions(existing).length);
+  });
+});
+
+describe('resolveParadox', () => {
+  it('picks a strategy from the wording and keeps a stable id', () => {
+    const [candidate] = detectContradictions([
+      statement('I used to enjoy running in the rain'),
+      statement('I dread running in the rain now'),
+    ]);
+    assert.equal(chooseStrategy(candidate), 'reframing');
+
+    const paradox = resolveParadox(candidate, 'conversation:c1');
+    assert.equal(paradox.id, paradoxId(candidate));
+    assert.equal(paradox.resolution.strategy, 'reframing');
+    assert.ok(paradox.coherenceImpact > 0);
+  });
+});
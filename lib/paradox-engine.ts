@@ -0,0 +1,215 @@
+import { sha256Hex } from '@/lib/memory-chain';
+import type { ParadoxEngine } from '@/types/limnus';
+
+// Detects contradictory user statements and proposes a resolution.
+// Statements contradict when they share most of their content words but
+// carry opposite polarity (a negation, or an antonym of a shared word).
+
+export type ParadoxStrategy = ParadoxEngine['resolution']['strategy'];
+
+export interface ParadoxStatement {
+  text: string;
+  timestamp: number;
+}
+
+export interface ContradictionCandidate {
+  statement1: ParadoxStatement;
+  statement2: ParadoxStatement;
+  similarity: number; // 0-1 overlap of content words
+}
+
+// How well each strategy settles a paradox, used for paradoxResolution
+export const STRATEGY_RESOLUTION_QUALITY: Record<ParadoxStrategy, number> = {
+  transcendence: 0.95,
+  integration: 0.85,
+  reframing: 0.75,
+  acceptance: 0.65,
+};
+
+const MIN_SIMILARITY = 0.6;
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nothing', 'nobody', 'neither', 'nor',
+  'dont', 'doesnt', 'didnt', 'cant', 'cannot', 'wont', 'isnt', 'arent',
+  'wasnt', 'werent', 'shouldnt', 'wouldnt', 'couldnt', 'havent', 'hasnt',
+]);
+
+// Each pair maps the second word onto the first with flipped polarity
+const ANTONYMS: [string, string][] = [
+  ['love', 'hate'],
+  ['like', 'dislike'],
+  ['happy', 'unhappy'],
+  ['happy', 'sad'],
+  ['agree', 'disagree'],
+  ['trust', 'distrust'],
+  ['want', 'refuse'],
+  ['enjoy', 'dread'],
+  ['true', 'false'],
+  ['possible', 'impossible'],
+  ['ready', 'unready'],
+  ['calm', 'anxious'],
+  ['good', 'bad'],
+];
+
+const ANTONYM_MAP = new Map(ANTONYMS.map(([positive, negative]) => [negative, positive]));
+
+const STOPWORDS = new Set([
+  'i', 'im', 'me', 'my', 'a', 'an', 'the', 'and', 'or', 'but', 'to', 'of',
+  'in', 'on', 'at', 'for', 'with', 'is', 'am', 'are', 'was', 'were', 'be',
+  'it', 'its', 'this', 'that', 'so', 'really', 'very', 'do', 'does', 'did',
+  'just', 'feel', 'think', 'actually',
+]);
+
+const FEELING_WORDS = new Set(['love', 'hate', 'like', 'want', 'enjoy', 'happy', 'calm', 'feel', 'afraid', 'dread']);
+const TEMPORAL_WORDS = new Set(['now', 'anymore', 'used', 'before', 'lately', 'today', 'yesterday', 'sometimes', 'still']);
+const ABSOLUTE_WORDS = new Set(['always', 'never', 'everything', 'nothing', 'everyone', 'nobody', 'all', 'none']);
+
+interface Analysis {
+  words: string[];
+  content: Set<string>;
+  negative: boolean;
+}
+
+export function splitStatements(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.split(/\s+/).length >= 3);
+}
+
+function analyze(text: string): Analysis {
+  const words = text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+  let negative = false;
+  const content = new Set<string>();
+  for (const word of words) {
+    if (NEGATIONS.has(word)) {
+      negative = !negative;
+      continue;
+    }
+    const positive = ANTONYM_MAP.get(word);
+    if (positive) {
+      negative = !negative;
+      content.add(positive);
+    } else if (!STOPWORDS.has(word)) {
+      content.add(word);
+    }
+  }
+  return { words, content, negative };
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+export function detectContradictions(statements: ParadoxStatement[]): ContradictionCandidate[] {
+  return detectNewContradictions([], statements);
+}
+
+// Pairs each added statement with the statements before it. Pairs among the
+// existing statements are not compared again, so a turn costs O(added × all).
+export function detectNewContradictions(
+  existing: ParadoxStatement[],
+  added: ParadoxStatement[]
+): ContradictionCandidate[] {
+  const earlier = existing.map(statement => ({ statement, analysis: analyze(statement.text) }));
+  const candidates: ContradictionCandidate[] = [];
+
+  for (const statement of added) {
+    const b = { statement, analysis: analyze(statement.text) };
+    for (const a of earlier) {
+      if (a.analysis.negative === b.analysis.negative) continue;
+
+      const similarity = jaccard(a.analysis.content, b.analysis.content);
+      if (similarity >= MIN_SIMILARITY) {
+        candidates.push({ statement1: a.statement, statement2: b.statement, similarity });
+      }
+    }
+    earlier.push(b);
+  }
+
+  return candidates.sort((a, b) => b.similarity - a.similarity);
+}
+
+function hasAny(words: string[], vocabulary: Set<string>): boolean {
+  return words.some(word => vocabulary.has(word));
+}
+
+// Time markers suggest both statements were true at different moments;
+// absolutes invite a wider frame; feelings are allowed to coexist
+export function chooseStrategy(candidate: ContradictionCandidate): ParadoxStrategy {
+  const words = [
+    ...analyze(candidate.statement1.text).words,
+    ...analyze(candidate.statement2.text).words,
+  ];
+  if (hasAny(words, TEMPORAL_WORDS)) return 'reframing';
+  if (hasAny(words, ABSOLUTE_WORDS)) return 'transcendence';
+  if (hasAny(words, FEELING_WORDS)) return 'acceptance';
+  return 'integration';
+}
+
+const SYNTHESIS_TEMPLATES: Record<ParadoxStrategy, (a: string, b: string) => { synthesis: string; newUnderstanding: string }> = {
+  transcendence: (a, b) => ({
+    synthesis: `"${a}" and "${b}" are both partial views of a larger pattern.`,
+    newUnderstanding: 'Absolutes dissolve when the wider whole is held in view.',
+  }),
+  integration: (a, b) => ({
+    synthesis: `"${a}" and "${b}" can each be true in different parts of the same life.`,
+    newUnderstanding: 'Both statements carry information worth keeping.',
+  }),
+  reframing: (a, b) => ({
+    synthesis: `"${a}" and "${b}" describe different moments rather than a conflict.`,
+    newUnderstanding: 'The contradiction marks a change over time.',
+  }),
+  acceptance: (a, b) => ({
+    synthesis: `"${a}" and "${b}" can be felt together.`,
+    newUnderstanding: 'Ambivalence is part of the experience, not an error in it.',
+  }),
+};
+
+export function resolveParadox(
+  candidate: ContradictionCandidate,
+  context: string,
+  strategy: ParadoxStrategy = chooseStrategy(candidate)
+): ParadoxEngine {
+  const { synthesis, newUnderstanding } = SYNTHESIS_TEMPLATES[strategy](
+    candidate.statement1.text,
+    candidate.statement2.text
+  );
+
+  return {
+    id: paradoxId(candidate),
+    contradiction: {
+      statement1: candidate.statement1.text,
+      statement2: candidate.statement2.text,
+      context,
+    },
+    resolution: { strategy, synthesis, newUnderstanding },
+    timestamp: new Date().toISOString(),
+    // Stronger overlaps are sharper paradoxes, so resolving them matters more
+    coherenceImpact: (STRATEGY_RESOLUTION_QUALITY[strategy] - 0.5) * candidate.similarity,
+  };
+}
+
+// Stable per statement pair, so re-running detection does not duplicate entries
+export function paradoxId(candidate: ContradictionCandidate): string {
+  const key = `${candidate.statement1.text}\u0000${candidate.statement2.text}`;
+  return `paradox_${sha256Hex(key).slice(0, 16)}`;
+}
+
+// Moves paradoxResolution towards the quality of each new resolution
+export function updateParadoxResolution(current: number, paradoxes: ParadoxEngine[]): number {
+  return paradoxes.reduce(
+    (value, paradox) => value + (STRATEGY_RESOLUTION_QUALITY[paradox.resolution.strategy] - value) * 0.3,
+    current
+  );
+}
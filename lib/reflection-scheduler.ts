@@ -0,0 +1,75 @@
+import type { ReflectionDepth, ReflectionInteraction } from '@/types/limnus';
+import type { CoherenceBreakdown, CoherenceStatus } from '@/lib/coherence-engine';
+
+// Decides when the chat loop should reflect on its recent turns: every few
+// turns, after the conversation goes quiet, or when coherence drops out of
+// (or overshoots) the band around its coherence target.
+
+export interface ReflectionSchedule {
+  everyTurns: number;
+  idleMs: number;
+  // Fewer pending turns than this never trigger a reflection
+  minTurns: number;
+  // Newest turns kept for the next reflection
+  maxWindow: number;
+  depth: ReflectionDepth;
+}
+
+export const DEFAULT_REFLECTION_SCHEDULE: ReflectionSchedule = {
+  everyTurns: 6,
+  idleMs: 3 * 60 * 1000,
+  minTurns: 2,
+  maxWindow: 20,
+  depth: 'deep',
+};
+
+export type ReflectionReason = 'turn_count' | 'idle' | 'coherence_shift';
+
+export interface ReflectionSchedulerState {
+  pendingTurns: ReflectionInteraction[];
+  // Band status after the last turn; leaving 'optimal' triggers a reflection
+  coherenceStatus: CoherenceStatus | null;
+}
+
+export const INITIAL_SCHEDULER_STATE: ReflectionSchedulerState = {
+  pendingTurns: [],
+  coherenceStatus: null,
+};
+
+// Adds a completed turn and reports whether a reflection is due now
+export function recordTurn(
+  state: ReflectionSchedulerState,
+  turn: ReflectionInteraction,
+  coherence: CoherenceBreakdown | null,
+  schedule: ReflectionSchedule = DEFAULT_REFLECTION_SCHEDULE
+): { state: ReflectionSchedulerState; due: ReflectionReason | null } {
+  const pendingTurns = [...state.pendingTurns, turn].slice(-schedule.maxWindow);
+  const coherenceStatus = coherence?.status ?? state.coherenceStatus;
+  const next = { pendingTurns, coherenceStatus };
+
+  if (pendingTurns.length < schedule.minTurns) {
+    return { state: next, due: null };
+  }
+  if (state.coherenceStatus === 'optimal' && coherenceStatus !== 'optimal') {
+    return { state: next, due: 'coherence_shift' };
+  }
+  if (pendingTurns.length >= schedule.everyTurns) {
+    return { state: next, due: 'turn_count' };
+  }
+  return { state: next, due: null };
+}
+
+export function idleReflectionDue(
+  state: ReflectionSchedulerState,
+  schedule: ReflectionSchedule = DEFAULT_REFLECTION_SCHEDULE
+): boolean {
+  return state.pendingTurns.length >= schedule.minTurns;
+}
+
+// Reflected turns are consumed; turns that arrived meanwhile stay pending
+export function afterReflection(
+  state: ReflectionSchedulerState,
+  reflected: ReflectionInteraction[]
+): ReflectionSchedulerState {
+  return { ...state, pendingTurns: state.pendingTurns.filter(turn => !reflected.includes(turn)) };
+}
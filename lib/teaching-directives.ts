@@ -0,0 +1,130 @@
+import { detectContradictions } from '@/lib/paradox-engine';
+import type { DirectiveCategory, DirectiveStatus, DirectiveType, TeachingDirective } from '@/types/limnus';
+
+// Lifecycle: pending -> active -> integrated, and any live state -> deprecated
+export const DIRECTIVE_TRANSITIONS: Record<DirectiveStatus, DirectiveStatus[]> = {
+  pending: ['active', 'deprecated'],
+  active: ['integrated', 'deprecated'],
+  integrated: ['deprecated'],
+  deprecated: [],
+};
+
+// Confidence halves every two weeks without reinforcement; pending and
+// active directives below the floor are deprecated automatically
+export const CONFIDENCE_HALF_LIFE_DAYS = 14;
+export const DEPRECATION_CONFIDENCE = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shape stored under limnus_teaching_directives before directives moved onto
+// the session; kept only so old data can be migrated
+export interface LegacyTeachingDirective {
+  id: string;
+  type: DirectiveType;
+  content: string;
+  confidence: number;
+  sourceInteractions: string[];
+  emergentProperties: {
+    resonance: number;
+    coherence: number;
+    applicability: number;
+  };
+  goldenRatioAlignment: number;
+}
+
+const CATEGORY_BY_TYPE: Record<DirectiveType, DirectiveCategory> = {
+  pattern: 'behavioral',
+  principle: 'cognitive',
+  wisdom: 'emergent',
+  caution: 'ethical',
+};
+
+export function categoryForType(type: DirectiveType): DirectiveCategory {
+  return CATEGORY_BY_TYPE[type] ?? 'emergent';
+}
+
+// Legacy ids end in the extraction time (e.g. deep_3_1718000000000)
+function extractedAtFromId(id: string): string | null {
+  const match = /_(\d{12,})$/.exec(id);
+  return match ? new Date(Number(match[1])).toISOString() : null;
+}
+
+export function migrateLegacyDirective(
+  legacy: LegacyTeachingDirective,
+  fallbackExtractedAt: string = new Date().toISOString()
+): TeachingDirective {
+  return {
+    id: legacy.id,
+    content: legacy.content,
+    extractedAt: extractedAtFromId(legacy.id) ?? fallbackExtractedAt,
+    confidence: legacy.confidence,
+    category: categoryForType(legacy.type),
+    type: legacy.type,
+    sourceInteractions: legacy.sourceInteractions ?? [],
+    emergentProperties: legacy.emergentProperties ?? { resonance: 0.5, coherence: 0.5, applicability: 0.5 },
+    goldenRatioAlignment: legacy.goldenRatioAlignment ?? 0,
+    implementation: { status: 'pending' },
+  };
+}
+
+// Adds incoming directives unless one with the same id, or the same
+// category and content that is still in use, is already known
+export function mergeDirectives(existing: TeachingDirective[], incoming: TeachingDirective[]): TeachingDirective[] {
+  const merged = [...existing];
+  for (const directive of incoming) {
+    const duplicate = merged.some(known =>
+      known.id === directive.id ||
+      (known.category === directive.category &&
+        known.content === directive.content &&
+        known.implementation.status !== 'deprecated')
+    );
+    if (!duplicate) {
+      merged.push(directive);
+    }
+  }
+  return merged;
+}
+
+export function canTransition(from: DirectiveStatus, to: DirectiveStatus): boolean {
+  return DIRECTIVE_TRANSITIONS[from].includes(to);
+}
+
+// Measured from extraction or the last status change, whichever is later
+export function decayedConfidence(directive: TeachingDirective, now: number = Date.now()): number {
+  const reference = Math.max(
+    Date.parse(directive.extractedAt) || now,
+    Date.parse(directive.implementation.statusChangedAt ?? '') || 0
+  );
+  const ageDays = Math.max(0, now - reference) / DAY_MS;
+  return directive.confidence * Math.pow(0.5, ageDays / CONFIDENCE_HALF_LIFE_DAYS);
+}
+
+export function hasDecayed(directive: TeachingDirective, now: number = Date.now()): boolean {
+  const { status } = directive.implementation;
+  return (status === 'pending' || status === 'active') && decayedConfidence(directive, now) < DEPRECATION_CONFIDENCE;
+}
+
+// In-use directives of the same category whose content contradicts this one
+export function findDirectiveConflicts(
+  directive: TeachingDirective,
+  directives: TeachingDirective[]
+): TeachingDirective[] {
+  return directives.filter(other =>
+    other.id !== directive.id &&
+    other.category === directive.category &&
+    (other.implementation.status === 'active' || other.implementation.status === 'integrated') &&
+    detectContradictions([
+      { text: directive.content, timestamp: 0 },
+      { text: other.content, timestamp: 0 },
+    ]).length > 0
+  );
+}
+
+// System prompt section listing the active directives, strongest first
+export function formatDirectivesForPrompt(directives: TeachingDirective[]): string {
+  if (directives.length === 0) return '';
+  const lines = [...directives]
+    .sort((a, b) => b.confidence - a.confidence)
+    .map(directive => `- (${directive.category}) ${directive.content.replace(/\s+/g, ' ').trim()}`);
+  return ['Guidance learned from earlier reflections in this session:', ...lines].join('\n');
+}
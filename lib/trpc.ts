@@ -2,11 +2,12 @@ import { createTRPCReact } from "@trpc/react-query";
 import { httpLink } from "@trpc/client";
 import type { AppRouter } from "@/backend/trpc/app-router";
 import superjson from "superjson";
+import { getAuthToken } from "@/lib/auth-token";
 
 
 export const trpc = createTRPCReact<AppRouter>();
 
-const getBaseUrl = () => {
+export const getBaseUrl = () => {
   if (process.env.EXPO_PUBLIC_RORK_API_BASE_URL) {
     console.log('Using base URL:', process.env.EXPO_PUBLIC_RORK_API_BASE_URL);
     return process.env.EXPO_PUBLIC_RORK_API_BASE_URL;
@@ -61,6 +62,10 @@ export const trpcClient = trpc.createClient({
     httpLink({
       url: `${getBaseUrl()}/api/trpc`,
       transformer: superjson,
+      headers: async () => {
+        const token = await getAuthToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
       fetch: async (url, options) => {
         console.log('tRPC fetch:', url, options?.method || 'GET');
         
@@ -0,0 +1,46 @@
+// Chat Conversation Types
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  timestamp: number;
+  idempotencyKey?: string; // user messages: the client's key for the send
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  personaId?: string;
+  lastMessage: string;
+  timestamp: number;
+}
+
+export interface ConversationRecord {
+  id: string;
+  title: string;
+  personaId?: string;
+  ownerId?: string; // user who first wrote to it while signed in
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+}
+
+export interface PromptMessage {
+  role: 'system' | ChatRole;
+  content: string;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  temperature: number; // 0-2
+  model?: string;      // provider default when omitted
+  greeting: string;
+  builtIn: boolean;
+  createdAt: number;
+  updatedAt: number;
+}